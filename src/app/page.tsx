@@ -4,6 +4,14 @@ import { useState, useCallback, useRef, useEffect } from "react"
 import Canvas from "@/components/canvas"
 import LayerPanel from "@/components/layer-panel"
 import ExportManager from "@/components/export-manager"
+import ProblemsDialog from "@/components/problems-dialog"
+import RelinkAssetsDialog from "@/components/relink-assets-dialog"
+import ImportProjectDialog from "@/components/import-project-dialog"
+import HistoryPanel from "@/components/history-panel"
+import PresetLibraryDialog from "@/components/preset-library-dialog"
+import PresetReconcileDialog from "@/components/preset-reconcile-dialog"
+import Toast from "@/components/toast"
+import type { ToastMessage } from "@/components/toast"
 import {
   TaskManager,
   createQuickExportPNGTask,
@@ -12,19 +20,41 @@ import {
   createSaveTask,
   createSaveAsTask,
   createOpenTask,
+  createOpenFolderTask,
+  createRelinkFolderTask,
+  createRelinkFileTask,
+  createImportOraTask,
+  createImportProjectTask,
+  createExportOraTask,
+  createExportPresetLibraryTask,
+  createImportPresetLibraryTask,
 } from "@/utils/tasks"
-import type { LayerPreset } from "@/types/project"
-
-interface Layer {
-  id: string
-  name: string
-  src: string
-  file_path: string
-  width: number
-  height: number
-  isVisible: boolean
-  zIndex: number
-}
+import type {
+  LoadedProject,
+  LayerAssetUpdate,
+  ReloadedProject,
+  MergePreview,
+  MergedProject,
+  PresetLibraryPreview,
+  ImportedPresets,
+} from "@/utils/tasks"
+import { LayerTree } from "@/utils/layer-tree"
+import type { DropPosition } from "@/utils/layer-tree"
+import { PresetUtils } from "@/utils/preset-utils"
+import { ExclusiveGroups } from "@/utils/exclusive-groups"
+import { LayerRules } from "@/utils/layer-rules"
+import { PresetReconcile } from "@/utils/preset-reconcile"
+import { PresetThumbnails } from "@/utils/preset-thumbnails"
+import { ProjectDirectory } from "@/utils/project-directory"
+import { ProjectLoader } from "@/utils/project-loader"
+import { ProjectReload } from "@/utils/project-reload"
+import type { MergeSelection } from "@/utils/project-merge"
+import type { PresetLibraryMapping } from "@/utils/preset-library"
+import { DocumentHistory, DEFAULT_HISTORY_DEPTH } from "@/utils/document-history"
+import type { DocumentState, HistoryState } from "@/utils/document-history"
+import type { SetStateAction } from "react"
+import type { Layer, LayerFolder, LayerPreset, PresetStack, ExclusiveGroup, LayerRule, ExportItem, BlendMode } from "@/types/project"
+import type { ProjectDiagnostic } from "@/types/diagnostics"
 
 export default function ImageEditor() {
   const [zoom, setZoom] = useState(0.3)
@@ -34,31 +64,166 @@ export default function ImageEditor() {
   const [viewportSize, setViewportSize] = useState({ width: 800, height: 600 })
   const [isLayerPanelVisible, setIsLayerPanelVisible] = useState(true)
   const [presets, setPresets] = useState<LayerPreset[]>([])
+  const [presetStacks, setPresetStacks] = useState<PresetStack[]>([])
+  const [exclusiveGroups, setExclusiveGroups] = useState<ExclusiveGroup[]>([])
+  const [layerRules, setLayerRules] = useState<LayerRule[]>([])
+  const [autoApplyRules, setAutoApplyRules] = useState(true)
   const [isExportManagerOpen, setIsExportManagerOpen] = useState(false)
+  const [exportItems, setExportItems] = useState<ExportItem[]>([])
 
   // Dynamic canvas size - starts with reasonable defaults
   const [canvasWidth, setCanvasWidth] = useState(1920)
   const [canvasHeight, setCanvasHeight] = useState(1080)
   const [layers, setLayers] = useState<Layer[]>([])
+  const [folders, setFolders] = useState<LayerFolder[]>([])
 
   // Track if a project is loaded
   const [isProjectLoaded, setIsProjectLoaded] = useState(false)
   const [projectName, setProjectName] = useState<string | null>(null)
 
+  // Load problems waiting for the user to decide whether to open anyway
+  const [problemReport, setProblemReport] = useState<{
+    fileName: string
+    diagnostics: ProjectDiagnostic[]
+    resolve: (openAnyway: boolean) => void
+  } | null>(null)
+
+  // Folder picking and dropping are web-only; Tauri reads assets from disk
+  const [isTauriApp, setIsTauriApp] = useState(false)
+  useEffect(() => {
+    setIsTauriApp(ProjectLoader.isTauri())
+  }, [])
+
   // Initialize task manager
   const taskManagerRef = useRef<TaskManager | null>(null)
 
+  // Undo history of document edits. documentRef always holds the latest document,
+  // so edits made before React re-renders build on each other.
+  const [history, setHistory] = useState<HistoryState>(DocumentHistory.empty())
+  const [historyDepth, setHistoryDepth] = useState(DEFAULT_HISTORY_DEPTH)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+
+  // What the document looked like right after the last preset was applied, so a
+  // new preset can record only what changed since
+  const [presetBaseline, setPresetBaseline] = useState<LayerPreset | null>(null)
+
+  // Rendered preset thumbnails by preset id. Saved ones are shown right after
+  // opening until they have been re-rendered.
+  const [presetThumbnails, setPresetThumbnails] = useState<Record<string, string>>({})
+  const [saveThumbnails, setSaveThumbnails] = useState(false)
+  // Shown on the canvas while hovering a preset, without touching the document
+  const [hoveredPreset, setHoveredPreset] = useState<LayerPreset | null>(null)
+  const documentRef = useRef<DocumentState>({ layers, folders, presets, presetStacks, exclusiveGroups, layerRules })
+  useEffect(() => {
+    documentRef.current = { layers, folders, presets, presetStacks, exclusiveGroups, layerRules }
+  }, [layers, folders, presets, presetStacks, exclusiveGroups, layerRules])
+
+  const setDocument = useCallback((state: DocumentState) => {
+    documentRef.current = state
+    setLayers(state.layers)
+    setFolders(state.folders)
+    setPresets(state.presets)
+    setPresetStacks(state.presetStacks)
+    setExclusiveGroups(state.exclusiveGroups)
+    setLayerRules(state.layerRules)
+  }, [])
+
+  // Runs an edit against the current document and records it as one step;
+  // returning null leaves the document and the history alone
+  const editDocument = useCallback(
+      (edit: (document: DocumentState) => { label: string; state: DocumentState; mergeKey?: string } | null) => {
+        const before = documentRef.current
+        const result = edit(before)
+        const step = result && DocumentHistory.createStep(result.label, before, result.state, result.mergeKey)
+        if (!result || !step) return
+
+        setDocument(result.state)
+        setHistory((prev) => DocumentHistory.record(prev, step, historyDepth))
+      },
+      [historyDepth, setDocument],
+  )
+
+  const handleUndo = useCallback(() => {
+    const result = DocumentHistory.undo(history, documentRef.current)
+    if (result) {
+      setDocument(result.state)
+      setHistory(result.history)
+    }
+  }, [history, setDocument])
+
+  const handleRedo = useCallback(() => {
+    const result = DocumentHistory.redo(history, documentRef.current)
+    if (result) {
+      setDocument(result.state)
+      setHistory(result.history)
+    }
+  }, [history, setDocument])
+
+  const handleHistoryJump = useCallback(
+      (pastLength: number) => {
+        const result = DocumentHistory.jumpTo(history, documentRef.current, pastLength)
+        setDocument(result.state)
+        setHistory(result.history)
+      },
+      [history, setDocument],
+  )
+
+  const handleHistoryDepthChange = useCallback((depth: number) => {
+    setHistoryDepth(depth)
+    setHistory((prev) => DocumentHistory.trim(prev, depth))
+  }, [])
+
+  const [isReconcileOpen, setIsReconcileOpen] = useState(false)
+
   const handleLoadProject = useCallback(
-      (newLayers: Layer[], newPresets: LayerPreset[], newCanvasWidth: number, newCanvasHeight: number, fileName?: string) => {
+      ({
+        layers: newLayers,
+        folders: newFolders,
+        presets: newPresets,
+        presetStacks: newPresetStacks,
+        exclusiveGroups: newExclusiveGroups,
+        layerRules: newLayerRules,
+        canvasWidth: newCanvasWidth,
+        canvasHeight: newCanvasHeight,
+        fileName,
+        session,
+        presetThumbnails: savedThumbnails,
+      }: LoadedProject) => {
         console.log("Loading project with canvas size:", newCanvasWidth, "x", newCanvasHeight)
 
         setLayers(newLayers)
+        setFolders(newFolders)
         setPresets(newPresets)
+        setPresetStacks(newPresetStacks)
+        setExclusiveGroups(newExclusiveGroups)
+        setLayerRules(newLayerRules)
         setCanvasWidth(newCanvasWidth)
         setCanvasHeight(newCanvasHeight)
-        setSelectedLayerId(newLayers.length > 0 ? newLayers[0].id : null)
         setIsProjectLoaded(true)
         setProjectName(fileName || null)
+        setHistory(DocumentHistory.empty())
+        setPresetBaseline(null)
+        setPresetThumbnails(savedThumbnails ?? {})
+        setSaveThumbnails(savedThumbnails !== undefined)
+        setHoveredPreset(null)
+
+        // Layers may have been added or removed since the presets were saved
+        if (PresetReconcile.needsAttention(PresetReconcile.check(newPresets, newLayers, newFolders))) {
+          setIsReconcileOpen(true)
+        }
+
+        if (session) {
+          // Restore the saved working session
+          setSelectedLayerId(session.selectedLayerId)
+          setExportItems(session.exportItems)
+          setZoom(session.zoom)
+          setPanX(session.panX)
+          setPanY(session.panY)
+          return
+        }
+
+        setSelectedLayerId(newLayers.length > 0 ? newLayers[0].id : null)
+        setExportItems([])
 
         // Reset view with new canvas dimensions
         setZoom(0.3)
@@ -73,12 +238,22 @@ export default function ImageEditor() {
     const newCanvasHeight = 1080
 
     setLayers([])
+    setFolders([])
     setPresets([])
+    setPresetStacks([])
+    setExclusiveGroups([])
+    setLayerRules([])
+    setExportItems([])
     setCanvasWidth(newCanvasWidth)
     setCanvasHeight(newCanvasHeight)
     setSelectedLayerId(null)
     setIsProjectLoaded(false)
     setProjectName(null)
+    setHistory(DocumentHistory.empty())
+    setPresetBaseline(null)
+    setPresetThumbnails({})
+    setSaveThumbnails(false)
+    setHoveredPreset(null)
 
     // Reset view
     setZoom(0.3)
@@ -86,28 +261,212 @@ export default function ImageEditor() {
     setPanY(0)
   }, [])
 
+  const handleReviewProblems = useCallback(
+      (fileName: string, diagnostics: ProjectDiagnostic[]) =>
+          new Promise<boolean>((resolve) => setProblemReport({ fileName, diagnostics, resolve })),
+      [],
+  )
+
+  const [isRelinkOpen, setIsRelinkOpen] = useState(false)
+
+  const handleUpdateLayerAssets = useCallback((updates: LayerAssetUpdate[]) => {
+    const updatesById = new Map(updates.map((update) => [update.id, update]))
+    setLayers((prev) =>
+        prev.map((layer) => {
+          const update = updatesById.get(layer.id)
+          return update
+              ? { ...layer, file_path: update.file_path, src: update.src, assetStatus: update.assetStatus }
+              : layer
+        }),
+    )
+  }, [])
+
+  const [toast, setToast] = useState<ToastMessage | null>(null)
+  const dismissToast = useCallback(() => setToast(null), [])
+
+  // Files changed on disk; view, presets and the selection stay as they are
+  const handleReloadProject = useCallback(
+      ({ layers: newLayers, folders: newFolders, canvasWidth: newCanvasWidth, canvasHeight: newCanvasHeight, summary }: ReloadedProject) => {
+        editDocument((document) => ({ label: "Reload from disk", state: { ...document, layers: newLayers, folders: newFolders } }))
+        setCanvasWidth(newCanvasWidth)
+        setCanvasHeight(newCanvasHeight)
+        setSelectedLayerId((prev) => (prev && newLayers.some((layer) => layer.id === prev) ? prev : null))
+
+        const lines = ProjectReload.describe(summary)
+        setToast({
+          id: Date.now(),
+          title: "Project reloaded from disk",
+          lines: lines.length > 0 ? lines : [`Canvas is now ${newCanvasWidth}x${newCanvasHeight}`],
+        })
+      },
+      [editDocument],
+  )
+
+  const [mergeReview, setMergeReview] = useState<{
+    preview: MergePreview
+    resolve: (selection: MergeSelection | null) => void
+  } | null>(null)
+
+  const handleReviewMerge = useCallback(
+      (preview: MergePreview) => new Promise<MergeSelection | null>((resolve) => setMergeReview({ preview, resolve })),
+      [],
+  )
+
+  const closeMergeReview = (selection: MergeSelection | null) => {
+    mergeReview?.resolve(selection)
+    setMergeReview(null)
+  }
+
+  // Imported layers were stacked above the current ones by the task manager
+  const handleMergeProject = useCallback(({ layers: newLayers, folders: newFolders, presets: newPresets, fileName }: MergedProject) => {
+    editDocument((document) => ({
+      label: `Import from ${fileName}`,
+      state: {
+        layers: [...document.layers, ...newLayers],
+        folders: [...document.folders, ...newFolders],
+        presets: [...document.presets, ...newPresets],
+        presetStacks: document.presetStacks,
+        exclusiveGroups: document.exclusiveGroups,
+        layerRules: document.layerRules,
+      },
+    }))
+    setIsProjectLoaded(true)
+
+    setToast({
+      id: Date.now(),
+      title: `Imported from ${fileName}`,
+      lines: [
+        `${newLayers.length} layer${newLayers.length === 1 ? "" : "s"}, ${newFolders.length} folder${newFolders.length === 1 ? "" : "s"}`,
+        `${newPresets.length} preset${newPresets.length === 1 ? "" : "s"}`,
+      ],
+    })
+  }, [editDocument])
+
+  const [presetLibraryReview, setPresetLibraryReview] = useState<{
+    preview: PresetLibraryPreview
+    resolve: (mapping: PresetLibraryMapping | null) => void
+  } | null>(null)
+
+  const handleReviewPresetLibrary = useCallback(
+      (preview: PresetLibraryPreview) =>
+          new Promise<PresetLibraryMapping | null>((resolve) => setPresetLibraryReview({ preview, resolve })),
+      [],
+  )
+
+  const closePresetLibraryReview = (mapping: PresetLibraryMapping | null) => {
+    presetLibraryReview?.resolve(mapping)
+    setPresetLibraryReview(null)
+  }
+
+  const handleImportPresets = useCallback(({ presets: newPresets, fileName }: ImportedPresets) => {
+    editDocument((document) => ({
+      label: `Import presets from ${fileName}`,
+      state: { ...document, presets: [...document.presets, ...newPresets] },
+    }))
+    setToast({
+      id: Date.now(),
+      title: `Imported ${newPresets.length} preset${newPresets.length === 1 ? "" : "s"}`,
+      lines: newPresets.map((preset) => preset.name),
+    })
+  }, [editDocument])
+
+  const handleReconcilePresets = useCallback(
+      (label: string, fix: (presets: LayerPreset[]) => LayerPreset[]) => {
+        editDocument((document) => ({ label, state: { ...document, presets: fix(document.presets) } }))
+      },
+      [editDocument],
+  )
+
+  const handleRelinkFolder = useCallback(async (layerIds: string[]) => {
+    if (taskManagerRef.current) {
+      try {
+        await taskManagerRef.current.executeTask(createRelinkFolderTask(layerIds))
+      } catch (error) {
+        console.error("Relink folder task failed:", error)
+      }
+    }
+  }, [])
+
+  const handleRelinkFile = useCallback(async (layerId: string) => {
+    if (taskManagerRef.current) {
+      try {
+        await taskManagerRef.current.executeTask(createRelinkFileTask(layerId))
+      } catch (error) {
+        console.error("Relink file task failed:", error)
+      }
+    }
+  }, [])
+
+  const closeProblemReport = (openAnyway: boolean) => {
+    problemReport?.resolve(openAnyway)
+    setProblemReport(null)
+  }
+
+  // Create the task manager once and keep its context in sync, so state like the
+  // current project path survives re-renders
   useEffect(() => {
-    taskManagerRef.current = new TaskManager({
+    const context = {
       layers,
+      folders,
+      presets,
+      presetStacks,
+      exclusiveGroups,
+      layerRules,
+      exportItems,
+      selectedLayerId,
+      zoom,
+      panX,
+      panY,
       canvasWidth,
       canvasHeight,
-      onApplyPreset: handleApplyPreset,
+      presetThumbnails: saveThumbnails ? presetThumbnails : undefined,
       onLoadProject: handleLoadProject,
-    })
-  }, [layers, canvasWidth, canvasHeight, handleLoadProject])
+      onReviewProblems: handleReviewProblems,
+      onUpdateLayerAssets: handleUpdateLayerAssets,
+      onReloadProject: handleReloadProject,
+      onReviewMerge: handleReviewMerge,
+      onMergeProject: handleMergeProject,
+      onReviewPresetLibrary: handleReviewPresetLibrary,
+      onImportPresets: handleImportPresets,
+    }
 
-  // Update task manager context when dependencies change
-  useEffect(() => {
     if (taskManagerRef.current) {
-      taskManagerRef.current.updateContext({
-        layers,
-        canvasWidth,
-        canvasHeight,
-        onApplyPreset: handleApplyPreset,
-        onLoadProject: handleLoadProject,
-      })
+      taskManagerRef.current.updateContext(context)
+    } else {
+      taskManagerRef.current = new TaskManager(context)
     }
-  }, [layers, canvasWidth, canvasHeight, handleLoadProject])
+  }, [layers, folders, presets, presetStacks, exclusiveGroups, layerRules, exportItems, selectedLayerId, zoom, panX, panY, canvasWidth, canvasHeight, presetThumbnails, saveThumbnails, handleLoadProject, handleReviewProblems, handleUpdateLayerAssets, handleReloadProject, handleReviewMerge, handleMergeProject, handleReviewPresetLibrary, handleImportPresets])
+
+  // Re-render thumbnails in the background once edits settle. Unchanged presets
+  // come straight from the thumbnail cache.
+  useEffect(() => {
+    if (layers.length === 0) return
+
+    let isCancelled = false
+    const timer = setTimeout(async () => {
+      const rendered: Record<string, string> = {}
+      for (const preset of presets) {
+        const dataUrl = await PresetThumbnails.render(preset, layers, folders, canvasWidth, canvasHeight)
+        if (isCancelled) return
+        if (dataUrl) rendered[preset.id] = dataUrl
+      }
+
+      // Deleted presets lose their thumbnails; failed renders keep the old one
+      setPresetThumbnails((prev) =>
+          Object.fromEntries(
+              presets.flatMap((preset) => {
+                const dataUrl = rendered[preset.id] ?? prev[preset.id]
+                return dataUrl ? [[preset.id, dataUrl]] : []
+              }),
+          ),
+      )
+    }, 500)
+
+    return () => {
+      isCancelled = true
+      clearTimeout(timer)
+    }
+  }, [presets, layers, folders, canvasWidth, canvasHeight])
 
   const handleZoomChange = useCallback(
       (newZoom: number, centerX?: number, centerY?: number) => {
@@ -129,8 +488,92 @@ export default function ImageEditor() {
     setPanY(y)
   }, [])
 
+  // Applies a change to one layer as a named history step
+  const editLayer = useCallback(
+      (id: string, getLabel: (layer: Layer) => string, change: (layer: Layer) => Partial<Layer>, mergeKey?: string) => {
+        editDocument((document) => {
+          const target = document.layers.find((layer) => layer.id === id)
+          if (!target) return null
+          return {
+            label: getLabel(target),
+            state: { ...document, layers: document.layers.map((layer) => (layer.id === id ? { ...layer, ...change(layer) } : layer)) },
+            mergeKey,
+          }
+        })
+      },
+      [editDocument],
+  )
+
+  // Showing a member of an exclusive group hides the rest of the group. Hiding the
+  // last visible member is refused unless the group allows none. With auto-apply
+  // on, layer rules then follow from the toggled node.
+  const toggleNodeVisibility = useCallback((id: string) => {
+    const followRules = (document: DocumentState): DocumentState =>
+        autoApplyRules ? { ...document, ...LayerRules.applyImplied(document.layerRules, document.layers, document.folders, id) } : document
+
+    editDocument((document) => {
+      const layer = document.layers.find((l) => l.id === id)
+      const target = layer ?? document.folders.find((folder) => folder.id === id)
+      if (!target) return null
+      const name = layer ? target.name : `folder ${target.name}`
+
+      if (!target.isVisible) {
+        const shown = ExclusiveGroups.show(document.exclusiveGroups, document.layers, document.folders, id)
+        return { label: `Show ${name}`, state: followRules({ ...document, ...shown }) }
+      }
+
+      const blockingGroup = ExclusiveGroups.getBlockingGroup(document.exclusiveGroups, document.layers, document.folders, id)
+      if (blockingGroup) {
+        setToast({
+          id: Date.now(),
+          title: `${blockingGroup.name} needs one visible member`,
+          lines: ["Show another member instead, or allow none in Exclusive Groups"],
+        })
+        return null
+      }
+
+      return {
+        label: `Hide ${name}`,
+        state: followRules(
+            layer
+                ? { ...document, layers: document.layers.map((l) => (l.id === id ? { ...l, isVisible: false } : l)) }
+                : { ...document, folders: document.folders.map((f) => (f.id === id ? { ...f, isVisible: false } : f)) },
+        ),
+      }
+    })
+  }, [editDocument, autoApplyRules])
+
   const handleLayerToggleVisibility = useCallback((id: string) => {
-    setLayers((prev) => prev.map((layer) => (layer.id === id ? { ...layer, isVisible: !layer.isVisible } : layer)))
+    toggleNodeVisibility(id)
+  }, [toggleNodeVisibility])
+
+  const handleLayerOpacityChange = useCallback((id: string, opacity: number) => {
+    editLayer(id, (layer) => `Set opacity of ${layer.name}`, () => ({ opacity }), `opacity:${id}`)
+  }, [editLayer])
+
+  const handleLayerBlendModeChange = useCallback((id: string, blendMode: BlendMode) => {
+    editLayer(id, (layer) => `Set blend mode of ${layer.name} to ${blendMode}`, () => ({ blendMode }))
+  }, [editLayer])
+
+  const handleLayerToggleClipping = useCallback((id: string) => {
+    editLayer(id, (layer) => `${layer.clipping ? "Release" : "Clip"} ${layer.name}`, (layer) => ({ clipping: !layer.clipping }))
+  }, [editLayer])
+
+  const handleLayerToggleMask = useCallback((id: string) => {
+    editLayer(
+        id,
+        (layer) => `${layer.maskEnabled ? "Disable" : "Enable"} mask of ${layer.name}`,
+        (layer) => ({ maskEnabled: !layer.maskEnabled }),
+    )
+  }, [editLayer])
+
+  const handleFolderToggleVisibility = useCallback((id: string) => {
+    toggleNodeVisibility(id)
+  }, [toggleNodeVisibility])
+
+  // Expanding is a view change and isn't recorded
+  const handleFolderToggleExpanded = useCallback((id: string) => {
+    setFolders((prev) => prev.map((folder) => (folder.id === id ? { ...folder, isExpanded: !folder.isExpanded } : folder)))
   }, [])
 
   const handleLayerSelect = useCallback((id: string) => {
@@ -142,56 +585,125 @@ export default function ImageEditor() {
     const newLayer: Layer = {
       id: `layer-${Date.now()}`,
       name: `New Layer ${layers.length + 1}`,
-      src: `/placeholder.svg?height=${canvasHeight}&width=${canvasWidth}&text=New+Layer+${layers.length + 1}`,
+      src: ProjectLoader.createPlaceholder(`New Layer ${layers.length + 1}`, canvasWidth, canvasHeight),
       file_path: `./assets/new_layer_${layers.length + 1}.png`,
       width: canvasWidth,
       height: canvasHeight,
       isVisible: true,
       zIndex: maxZIndex + 1,
+      x: 0,
+      y: 0,
+      placement: "absolute",
+      opacity: 1,
+      blendMode: "normal",
+      clipping: false,
+      maskSrc: null,
+      mask_path: null,
+      maskEnabled: true,
+      assetStatus: "missing",
     }
-    setLayers((prev) => [...prev, newLayer])
+    editDocument((document) => ({
+      label: `Add ${newLayer.name}`,
+      state: { ...document, layers: [...document.layers, newLayer] },
+    }))
     setSelectedLayerId(newLayer.id)
-  }, [layers, canvasWidth, canvasHeight])
+  }, [layers, canvasWidth, canvasHeight, editDocument])
 
   const handleDeleteLayer = useCallback(
       (id: string) => {
         if (layers.length <= 1) return
-        setLayers((prev) => prev.filter((layer) => layer.id !== id))
+        editDocument((document) => {
+          const target = document.layers.find((layer) => layer.id === id)
+          if (!target) return null
+          return { label: `Delete ${target.name}`, state: { ...document, layers: document.layers.filter((layer) => layer.id !== id) } }
+        })
         if (selectedLayerId === id) {
           const remainingLayers = layers.filter((l) => l.id !== id)
           setSelectedLayerId(remainingLayers.length > 0 ? remainingLayers[0].id : null)
         }
       },
-      [layers, selectedLayerId],
+      [layers, selectedLayerId, editDocument],
+  )
+
+  const handleReorderLayers = useCallback(
+      (draggedId: string, targetId: string, position: DropPosition) => {
+        editDocument((document) => {
+          const dragged = document.layers.find((layer) => layer.id === draggedId) ?? document.folders.find((folder) => folder.id === draggedId)
+          const moved = LayerTree.moveNode(document.layers, document.folders, draggedId, targetId, position)
+          return { label: `Move ${dragged?.name ?? "layer"}`, state: { ...document, layers: moved.layers, folders: moved.folders } }
+        })
+      },
+      [editDocument],
   )
 
-  const handleReorderLayers = useCallback((draggedId: string, targetId: string) => {
-    setLayers((prev) => {
-      const draggedIndex = prev.findIndex((layer) => layer.id === draggedId)
-      const targetIndex = prev.findIndex((layer) => layer.id === targetId)
+  // Applying a preset is a single step, however many layers it changes
+  const handleApplyPreset = useCallback((preset: LayerPreset, label = `Apply preset ${preset.name}`) => {
+    editDocument((document) => ({
+      label,
+      state: {
+        ...document,
+        layers: PresetUtils.applyToLayers(document.layers, preset),
+        folders: PresetUtils.applyToFolders(document.folders, preset),
+      },
+    }))
+    const { layers: appliedLayers, folders: appliedFolders } = documentRef.current
+    setPresetBaseline(PresetUtils.capturePreset(preset.name, appliedLayers, appliedFolders, true))
+  }, [editDocument])
+
+  // Stacks apply as one step too, composed into a single preset
+  const handleApplyStack = useCallback((stack: PresetStack) => {
+    handleApplyPreset(PresetUtils.composeStack(stack, documentRef.current.presets), `Apply stack ${stack.name}`)
+  }, [handleApplyPreset])
 
-      if (draggedIndex === -1 || targetIndex === -1) return prev
+  // Preset create, edit, delete and reorder from the preset manager. Deleted
+  // presets are also taken out of the stacks that used them.
+  const handlePresetsChange = useCallback((action: SetStateAction<LayerPreset[]>) => {
+    editDocument((document) => {
+      const newPresets = typeof action === "function" ? action(document.presets) : action
+      const presetIds = new Set(newPresets.map((preset) => preset.id))
+      const isStackAffected = document.presetStacks.some((stack) => stack.preset_ids.some((id) => !presetIds.has(id)))
+      return {
+        label: DocumentHistory.describePresetChange(document.presets, newPresets),
+        state: {
+          ...document,
+          presets: newPresets,
+          presetStacks: isStackAffected
+              ? document.presetStacks.map((stack) => ({ ...stack, preset_ids: stack.preset_ids.filter((id) => presetIds.has(id)) }))
+              : document.presetStacks,
+        },
+      }
+    })
+  }, [editDocument])
 
-      const newLayers = [...prev]
-      const [draggedLayer] = newLayers.splice(draggedIndex, 1)
-      newLayers.splice(targetIndex, 0, draggedLayer)
+  const handlePresetStacksChange = useCallback((action: SetStateAction<PresetStack[]>) => {
+    editDocument((document) => {
+      const newStacks = typeof action === "function" ? action(document.presetStacks) : action
+      return {
+        label: DocumentHistory.describeStackChange(document.presetStacks, newStacks),
+        state: { ...document, presetStacks: newStacks },
+      }
+    })
+  }, [editDocument])
 
-      // Update z-index based on new order
-      return newLayers.map((layer, index) => ({
-        ...layer,
-        zIndex: index,
-      }))
+  // Renames and "allow none" toggles while typing collapse into one step
+  const handleExclusiveGroupsChange = useCallback((action: SetStateAction<ExclusiveGroup[]>) => {
+    editDocument((document) => {
+      const newGroups = typeof action === "function" ? action(document.exclusiveGroups) : action
+      const label = DocumentHistory.describeExclusiveGroupChange(document.exclusiveGroups, newGroups)
+      return {
+        label,
+        state: { ...document, exclusiveGroups: newGroups },
+        mergeKey: label === "Edit exclusive groups" ? "exclusive-groups" : undefined,
+      }
     })
-  }, [])
+  }, [editDocument])
 
-  const handleApplyPreset = useCallback((layerStates: Record<string, boolean>) => {
-    setLayers((prev) =>
-        prev.map((layer) => ({
-          ...layer,
-          isVisible: layerStates[layer.id] ?? layer.isVisible,
-        })),
-    )
-  }, [])
+  const handleLayerRulesChange = useCallback((action: SetStateAction<LayerRule[]>) => {
+    editDocument((document) => {
+      const newRules = typeof action === "function" ? action(document.layerRules) : action
+      return { label: DocumentHistory.describeRuleChange(document.layerRules, newRules), state: { ...document, layerRules: newRules } }
+    })
+  }, [editDocument])
 
   // Task handlers using TaskManager
   const handleOpen = useCallback(async () => {
@@ -204,6 +716,78 @@ export default function ImageEditor() {
     }
   }, [])
 
+  const handleOpenFolder = useCallback(async () => {
+    if (taskManagerRef.current) {
+      try {
+        await taskManagerRef.current.executeTask(createOpenFolderTask())
+      } catch (error) {
+        console.error("Open folder task failed:", error)
+      }
+    }
+  }, [])
+
+  const handleDropFiles = useCallback(async (dataTransfer: DataTransfer) => {
+    // Read the dropped entries before the first await; they are gone after the event
+    const filesPromise = ProjectDirectory.fromDataTransfer(dataTransfer)
+    if (taskManagerRef.current) {
+      try {
+        await taskManagerRef.current.executeTask(createOpenFolderTask(await filesPromise))
+      } catch (error) {
+        console.error("Open dropped files failed:", error)
+      }
+    }
+  }, [])
+
+  const handleImportOra = useCallback(async () => {
+    if (taskManagerRef.current) {
+      try {
+        await taskManagerRef.current.executeTask(createImportOraTask())
+      } catch (error) {
+        console.error("Import OpenRaster task failed:", error)
+      }
+    }
+  }, [])
+
+  const handleImportProject = useCallback(async () => {
+    if (taskManagerRef.current) {
+      try {
+        await taskManagerRef.current.executeTask(createImportProjectTask())
+      } catch (error) {
+        console.error("Import from project task failed:", error)
+      }
+    }
+  }, [])
+
+  const handleExportOra = useCallback(async () => {
+    if (taskManagerRef.current) {
+      try {
+        await taskManagerRef.current.executeTask(createExportOraTask(projectName ?? undefined))
+      } catch (error) {
+        console.error("Export OpenRaster task failed:", error)
+      }
+    }
+  }, [projectName])
+
+  const handleExportPresetLibrary = useCallback(async () => {
+    if (taskManagerRef.current) {
+      try {
+        await taskManagerRef.current.executeTask(createExportPresetLibraryTask(projectName ? `${projectName}-presets` : undefined))
+      } catch (error) {
+        console.error("Export preset library task failed:", error)
+      }
+    }
+  }, [projectName])
+
+  const handleImportPresetLibrary = useCallback(async () => {
+    if (taskManagerRef.current) {
+      try {
+        await taskManagerRef.current.executeTask(createImportPresetLibraryTask())
+      } catch (error) {
+        console.error("Import preset library task failed:", error)
+      }
+    }
+  }, [])
+
   const handleSave = useCallback(async () => {
     if (taskManagerRef.current) {
       try {
@@ -280,7 +864,33 @@ export default function ImageEditor() {
     return () => window.removeEventListener("keydown", handleKeyDown)
   }, [])
 
-  const visibleLayers = layers.filter((layer) => layer.isVisible)
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) {
+        return
+      }
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") {
+        return
+      }
+
+      e.preventDefault()
+      if (e.shiftKey) {
+        handleRedo()
+      } else {
+        handleUndo()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [handleUndo, handleRedo])
+
+  // Folder visibility cascades to the layers inside
+  const visibleLayers = hoveredPreset
+      ? LayerTree.getVisibleLayers(PresetUtils.applyToLayers(layers, hoveredPreset), PresetUtils.applyToFolders(folders, hoveredPreset))
+      : LayerTree.getVisibleLayers(layers, folders)
 
   return (
       <div className="flex h-screen bg-gray-100">
@@ -297,17 +907,28 @@ export default function ImageEditor() {
               onZoomChange={handleZoomChange}
               onPanChange={handlePanChange}
               onOpen={handleOpen}
+              onOpenFolder={isTauriApp ? undefined : handleOpenFolder}
+              onDropFiles={isTauriApp ? undefined : handleDropFiles}
+              onImportOra={handleImportOra}
+              onImportProject={handleImportProject}
+              onExportOra={handleExportOra}
               onSave={handleSave}
               onSaveAs={handleSaveAs}
               onNewProject={handleNewProject}
               onQuickExportPNG={handleQuickExportPNG}
               onQuickExportJPG={handleQuickExportJPG}
               onBulkExport={handleBulkExport}
+              canUndo={history.past.length > 0}
+              canRedo={history.future.length > 0}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              onOpenHistory={() => setIsHistoryOpen(true)}
           />
         </div>
         {isLayerPanelVisible && (
             <LayerPanel
                 layers={layers}
+                folders={folders}
                 selectedLayerId={selectedLayerId}
                 canvasWidth={canvasWidth}
                 canvasHeight={canvasHeight}
@@ -317,27 +938,109 @@ export default function ImageEditor() {
                 viewportWidth={viewportSize.width}
                 viewportHeight={viewportSize.height}
                 presets={presets}
+                presetBaseline={presetBaseline}
+                presetStacks={presetStacks}
+                onPresetStacksChange={handlePresetStacksChange}
+                onApplyStack={handleApplyStack}
+                exclusiveGroups={exclusiveGroups}
+                onExclusiveGroupsChange={handleExclusiveGroupsChange}
+                layerRules={layerRules}
+                onLayerRulesChange={handleLayerRulesChange}
+                autoApplyRules={autoApplyRules}
+                onAutoApplyRulesChange={setAutoApplyRules}
+                onExportPresetLibrary={handleExportPresetLibrary}
+                onImportPresetLibrary={handleImportPresetLibrary}
+                onOpenReconcile={() => setIsReconcileOpen(true)}
+                presetThumbnails={presetThumbnails}
+                saveThumbnails={saveThumbnails}
+                onSaveThumbnailsChange={setSaveThumbnails}
+                onHoverPreset={setHoveredPreset}
                 onLayerToggleVisibility={handleLayerToggleVisibility}
+                onLayerOpacityChange={handleLayerOpacityChange}
+                onLayerBlendModeChange={handleLayerBlendModeChange}
+                onLayerToggleClipping={handleLayerToggleClipping}
+                onLayerToggleMask={handleLayerToggleMask}
+                onFolderToggleVisibility={handleFolderToggleVisibility}
+                onFolderToggleExpanded={handleFolderToggleExpanded}
                 onLayerSelect={handleLayerSelect}
                 onPanChange={handlePanChange}
                 onAddLayer={handleAddLayer}
                 onDeleteLayer={handleDeleteLayer}
                 onApplyPreset={handleApplyPreset}
                 onReorderLayers={handleReorderLayers}
-                onPresetsChange={setPresets}
+                onPresetsChange={handlePresetsChange}
+                onOpenRelink={() => setIsRelinkOpen(true)}
             />
         )}
 
         {/* Export Manager */}
         <ExportManager
             layers={layers}
+            folders={folders}
             presets={presets}
+            presetStacks={presetStacks}
+            exclusiveGroups={exclusiveGroups}
+            layerRules={layerRules}
+            exportItems={exportItems}
             canvasWidth={canvasWidth}
             canvasHeight={canvasHeight}
-            onApplyPreset={handleApplyPreset}
+            onExportItemsChange={setExportItems}
             isOpen={isExportManagerOpen}
             onOpenChange={setIsExportManagerOpen}
         />
+
+        <RelinkAssetsDialog
+            isOpen={isRelinkOpen}
+            layers={layers}
+            onRelinkFolder={handleRelinkFolder}
+            onRelinkFile={handleRelinkFile}
+            onClose={() => setIsRelinkOpen(false)}
+        />
+
+        <ImportProjectDialog
+            preview={mergeReview?.preview ?? null}
+            canvasWidth={canvasWidth}
+            canvasHeight={canvasHeight}
+            onImport={closeMergeReview}
+            onCancel={() => closeMergeReview(null)}
+        />
+
+        <PresetLibraryDialog
+            preview={presetLibraryReview?.preview ?? null}
+            layers={layers}
+            folders={folders}
+            onImport={closePresetLibraryReview}
+            onCancel={() => closePresetLibraryReview(null)}
+        />
+
+        <PresetReconcileDialog
+            isOpen={isReconcileOpen}
+            presets={presets}
+            layers={layers}
+            folders={folders}
+            onFix={handleReconcilePresets}
+            onClose={() => setIsReconcileOpen(false)}
+        />
+
+        <HistoryPanel
+            isOpen={isHistoryOpen}
+            history={history}
+            depth={historyDepth}
+            onJump={handleHistoryJump}
+            onDepthChange={handleHistoryDepthChange}
+            onClose={() => setIsHistoryOpen(false)}
+        />
+
+        <Toast message={toast} onDismiss={dismissToast} />
+
+        {/* Load Problems */}
+        <ProblemsDialog
+            isOpen={problemReport !== null}
+            fileName={problemReport?.fileName ?? ""}
+            diagnostics={problemReport?.diagnostics ?? []}
+            onOpenAnyway={() => closeProblemReport(true)}
+            onCancel={() => closeProblemReport(false)}
+        />
       </div>
   )
 }
\ No newline at end of file
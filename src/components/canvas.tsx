@@ -3,19 +3,9 @@
 import type React from "react"
 
 import { useRef, useEffect, useState, useCallback } from "react"
-import Image from "next/image"
 import LayerToolbar from "./layer-toolbar"
-
-interface Layer {
-  id: string
-  name: string
-  src: string
-  file_path: string
-  width: number
-  height: number
-  isVisible: boolean
-  zIndex: number
-}
+import { Compositor } from "@/utils/compositor"
+import type { Layer } from "@/types/project"
 
 interface CanvasProps {
   layers: Layer[]
@@ -29,12 +19,22 @@ interface CanvasProps {
   onZoomChange: (zoom: number, centerX?: number, centerY?: number) => void
   onPanChange: (x: number, y: number) => void
   onOpen?: () => void
+  onOpenFolder?: () => void
+  onDropFiles?: (dataTransfer: DataTransfer) => void
+  onImportOra?: () => void
+  onImportProject?: () => void
+  onExportOra?: () => void
   onSave?: () => void
   onSaveAs?: () => void
   onNewProject?: () => void
   onQuickExportPNG?: () => void
   onQuickExportJPG?: () => void
   onBulkExport?: () => void
+  canUndo?: boolean
+  canRedo?: boolean
+  onUndo?: () => void
+  onRedo?: () => void
+  onOpenHistory?: () => void
 }
 
 export default function Canvas({
@@ -49,14 +49,25 @@ export default function Canvas({
                                  onZoomChange,
                                  onPanChange,
                                  onOpen,
+                                 onOpenFolder,
+                                 onDropFiles,
+                                 onImportOra,
+                                 onImportProject,
+                                 onExportOra,
                                  onSave,
                                  onSaveAs,
                                  onNewProject,
                                  onQuickExportPNG,
                                  onQuickExportJPG,
                                  onBulkExport,
+                                 canUndo = false,
+                                 canRedo = false,
+                                 onUndo,
+                                 onRedo,
+                                 onOpenHistory,
                                }: CanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null)
+  const renderCanvasRef = useRef<HTMLCanvasElement>(null)
   const [isPanning, setIsPanning] = useState(false)
   const [lastPanPoint, setLastPanPoint] = useState({ x: 0, y: 0 })
   const [isSpacePressed, setIsSpacePressed] = useState(false)
@@ -161,8 +172,25 @@ export default function Canvas({
     onPanChange(0, 0)
   }
 
-  // Sort layers by z-index for proper rendering order
-  const sortedLayers = layers.slice().sort((a, b) => a.zIndex - b.zIndex)
+  // Composite at document resolution with the same code the exports use; zoom only scales the element
+  useEffect(() => {
+    const canvas = renderCanvasRef.current
+    if (!canvas || layers.length === 0) return
+
+    let isCancelled = false
+    Compositor.loadLayerImages(layers).then((images) => {
+      const ctx = canvas.getContext("2d")
+      if (isCancelled || !ctx) return
+
+      canvas.width = canvasWidth
+      canvas.height = canvasHeight
+      Compositor.drawLayers(ctx, layers, images, canvasWidth, canvasHeight)
+    })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [layers, canvasWidth, canvasHeight])
 
   // Determine canvas aspect ratio for better empty state display
   const aspectRatio = canvasWidth / canvasHeight
@@ -183,12 +211,21 @@ export default function Canvas({
             onFitToScreen={handleFitToScreen}
             onActualSize={handleActualSize}
             onOpen={onOpen}
+            onOpenFolder={onOpenFolder}
+            onImportOra={onImportOra}
+            onImportProject={onImportProject}
+            onExportOra={onExportOra}
             onSave={onSave}
             onSaveAs={onSaveAs}
             onNewProject={onNewProject}
             onQuickExportPNG={onQuickExportPNG}
             onQuickExportJPG={onQuickExportJPG}
             onBulkExport={onBulkExport}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            onUndo={onUndo}
+            onRedo={onRedo}
+            onOpenHistory={onOpenHistory}
         />
 
         {/* Canvas Container */}
@@ -200,6 +237,18 @@ export default function Canvas({
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
             onMouseLeave={handleMouseUp}
+            onDragOver={(e) => {
+              if (onDropFiles && e.dataTransfer.types.includes("Files")) {
+                e.preventDefault()
+                e.dataTransfer.dropEffect = "copy"
+              }
+            }}
+            onDrop={(e) => {
+              if (onDropFiles && e.dataTransfer.types.includes("Files")) {
+                e.preventDefault()
+                onDropFiles(e.dataTransfer)
+              }
+            }}
         >
           {layers.length === 0 ? (
               /* Empty State */
@@ -212,7 +261,7 @@ export default function Canvas({
                   <p className="text-sm mb-2">
                     {isProjectLoaded
                         ? "This project has no layers. Add some layers to get started."
-                        : "Open a CSP project file exported from your Python extractor"}
+                        : "Open a CSP project file exported from your Python extractor, or drop its folder here"}
                   </p>
                   <div className="mb-4">
                     <p className="text-xs text-gray-400 mb-1">
@@ -231,6 +280,14 @@ export default function Canvas({
                     >
                       Open Project
                     </button>
+                    {onOpenFolder && (
+                        <button
+                            onClick={onOpenFolder}
+                            className="px-4 py-2 bg-blue-50 text-blue-700 border border-blue-200 rounded-md hover:bg-blue-100 transition-colors"
+                        >
+                          Open Folder
+                        </button>
+                    )}
                     {!isProjectLoaded && (
                         <button
                             onClick={onNewProject}
@@ -273,28 +330,14 @@ export default function Canvas({
                         backgroundPosition: `0 0, 0 ${10 * zoom}px, ${10 * zoom}px ${-10 * zoom}px, ${-10 * zoom}px 0px`,
                       }}
                   />
-                  {/* Render Layers in z-index order */}
-                  {sortedLayers.map((layer) => (
-                      <div
-                          key={layer.id}
-                          className="absolute inset-0"
-                          style={{
-                            zIndex: layer.zIndex,
-                            opacity: layer.isVisible ? 1 : 0,
-                          }}
-                      >
-                        <Image
-                            src={layer.src || "/placeholder.svg"}
-                            alt={layer.name}
-                            fill
-                            className="object-contain"
-                            style={{
-                              imageRendering: zoom > 2 ? "pixelated" : "auto",
-                            }}
-                            priority={layer.zIndex < 3}
-                        />
-                      </div>
-                  ))}
+                  {/* Composited layers */}
+                  <canvas
+                      ref={renderCanvasRef}
+                      className="absolute inset-0 w-full h-full"
+                      style={{
+                        imageRendering: zoom > 2 ? "pixelated" : "auto",
+                      }}
+                  />
                 </div>
               </div>
           )}
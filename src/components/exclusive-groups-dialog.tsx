@@ -0,0 +1,180 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, Plus, Trash2 } from "lucide-react"
+import { ExclusiveGroups } from "@/utils/exclusive-groups"
+import type { ExclusiveGroup, Layer, LayerFolder } from "@/types/project"
+
+interface ExclusiveGroupsDialogProps {
+  isOpen: boolean
+  groups: ExclusiveGroup[]
+  layers: Layer[]
+  folders: LayerFolder[]
+  onGroupsChange: React.Dispatch<React.SetStateAction<ExclusiveGroup[]>>
+  onClose: () => void
+}
+
+// Value of the "members" select for an explicit list of layers
+const LAYER_LIST = "layers"
+
+export default function ExclusiveGroupsDialog({
+  isOpen,
+  groups,
+  layers,
+  folders,
+  onGroupsChange,
+  onClose,
+}: ExclusiveGroupsDialogProps) {
+  const [newName, setNewName] = useState("")
+  const [newSource, setNewSource] = useState(LAYER_LIST)
+  const [newLayerIds, setNewLayerIds] = useState<Set<string>>(new Set())
+
+  const violations = ExclusiveGroups.getViolations(groups, layers, folders)
+  const folderById = new Map(folders.map((folder) => [folder.id, folder]))
+  const sortedLayers = [...layers].sort((a, b) => b.zIndex - a.zIndex)
+
+  const updateGroup = (id: string, updates: Partial<ExclusiveGroup>) => {
+    onGroupsChange((prev) => prev.map((group) => (group.id === id ? { ...group, ...updates } : group)))
+  }
+
+  const toggleNewLayer = (id: string, checked: boolean) => {
+    setNewLayerIds((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  const isFolderSource = newSource !== LAYER_LIST
+  const canCreate = isFolderSource || newLayerIds.size > 1
+
+  const createGroup = () => {
+    if (!canCreate) return
+
+    const folder = isFolderSource ? folderById.get(newSource) : undefined
+    const group: ExclusiveGroup = {
+      id: `exclusive-${Date.now()}`,
+      name: newName.trim() || folder?.name || `Group ${groups.length + 1}`,
+      folder_id: folder?.id ?? null,
+      layer_ids: isFolderSource ? [] : sortedLayers.filter((layer) => newLayerIds.has(layer.id)).map((layer) => layer.id),
+      allow_none: false,
+    }
+    console.log("Creating exclusive group:", group)
+    onGroupsChange((prev) => [...prev, group])
+    setNewName("")
+    setNewLayerIds(new Set())
+  }
+
+  return (
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Exclusive Groups</DialogTitle>
+          </DialogHeader>
+
+          <div className="text-xs text-gray-500">
+            Only one member of a group can be visible. Showing a member hides the others.
+          </div>
+
+          {violations.length > 0 && (
+              <div className="space-y-1">
+                {violations.map((violation) => (
+                    <div key={violation.groupId} className="flex items-center gap-2 text-sm text-amber-600">
+                      <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                      {violation.message}
+                    </div>
+                ))}
+              </div>
+          )}
+
+          <div className="space-y-2">
+            {groups.length === 0 && <div className="text-center py-2 text-sm text-gray-400">No exclusive groups yet</div>}
+            {groups.map((group) => {
+              const members = ExclusiveGroups.getMembers(group, layers, folders)
+              const folder = group.folder_id ? folderById.get(group.folder_id) : undefined
+              return (
+                  <div key={group.id} className="border rounded-md p-2 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Input
+                          value={group.name}
+                          onChange={(e) => updateGroup(group.id, { name: e.target.value })}
+                          className="h-8 text-sm"
+                      />
+                      <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onGroupsChange((prev) => prev.filter((g) => g.id !== group.id))}
+                          className="text-red-500 hover:text-red-700"
+                          title="Delete group"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    <div className="text-xs text-gray-500 truncate" title={members.map((member) => member.name).join(", ")}>
+                      {folder ? `Contents of ${folder.name}` : `${members.length} layers`}: {members.map((member) => member.name).join(", ")}
+                    </div>
+                    <label className="flex items-center gap-2 text-xs cursor-pointer">
+                      <Checkbox
+                          checked={group.allow_none}
+                          onCheckedChange={(checked) => updateGroup(group.id, { allow_none: !!checked })}
+                      />
+                      Allow none visible
+                    </label>
+                  </div>
+              )
+            })}
+          </div>
+
+          <div className="space-y-2 border-t pt-3">
+            <h3 className="text-sm font-medium">New Group</h3>
+            <Input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Name, e.g. Mouths" />
+            <Select value={newSource} onValueChange={setNewSource}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={LAYER_LIST}>Picked layers</SelectItem>
+                {folders.map((folder) => (
+                    <SelectItem key={folder.id} value={folder.id}>
+                      Contents of {folder.name}
+                    </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {!isFolderSource && (
+                <div className="space-y-1 max-h-48 overflow-y-auto border rounded-md p-2">
+                  {sortedLayers.map((layer) => (
+                      <label key={layer.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox
+                            checked={newLayerIds.has(layer.id)}
+                            onCheckedChange={(checked) => toggleNewLayer(layer.id, !!checked)}
+                        />
+                        <span className="truncate">{layer.name}</span>
+                      </label>
+                  ))}
+                </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button onClick={createGroup} disabled={!canCreate}>
+                <Plus className="w-3 h-3 mr-1" />
+                Add Group
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+  )
+}
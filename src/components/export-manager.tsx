@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
@@ -10,55 +10,55 @@ import { Input } from "@/components/ui/input"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Progress } from "@/components/ui/progress"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { ImageIcon, Settings, GripVertical, Trash2 } from "lucide-react"
-import type { LayerPreset } from "@/types/project"
-
-interface Layer {
-  id: string
-  name: string
-  src: string
-  file_path: string
-  width: number
-  height: number
-  isVisible: boolean
-  zIndex: number
-}
-
-interface ExportItem {
-  id: string
-  name: string
-  preset: LayerPreset
-  format: "png" | "jpg"
-  quality: number
-  enabled: boolean
-}
+import { ImageIcon, Settings, GripVertical, Trash2, Layers, AlertTriangle } from "lucide-react"
+import { LayerTree } from "@/utils/layer-tree"
+import { PresetUtils } from "@/utils/preset-utils"
+import { Compositor } from "@/utils/compositor"
+import { PresetMatrix } from "@/utils/preset-matrix"
+import { ExclusiveGroups } from "@/utils/exclusive-groups"
+import { LayerRules } from "@/utils/layer-rules"
+import MatrixBuilder from "./matrix-builder"
+import type { Layer, LayerFolder, LayerPreset, PresetStack, ExclusiveGroup, LayerRule, ExportItem } from "@/types/project"
 
 interface ExportManagerProps {
   layers: Layer[]
+  folders: LayerFolder[]
   presets: LayerPreset[]
+  presetStacks: PresetStack[]
+  exclusiveGroups: ExclusiveGroup[]
+  layerRules: LayerRule[]
+  exportItems: ExportItem[]
   canvasWidth: number
   canvasHeight: number
-  onApplyPreset: (layerStates: Record<string, boolean>) => void
+  onExportItemsChange: React.Dispatch<React.SetStateAction<ExportItem[]>>
   isOpen?: boolean
   onOpenChange?: (open: boolean) => void
 }
 
 export default function ExportManager({
   layers,
+  folders,
   presets,
+  presetStacks,
+  exclusiveGroups,
+  layerRules,
+  exportItems,
   canvasWidth,
   canvasHeight,
-  onApplyPreset,
+  onExportItemsChange: setExportItems,
   isOpen = false,
   onOpenChange,
 }: ExportManagerProps) {
   const [isDialogOpen, setIsDialogOpen] = useState(isOpen)
-  const [exportItems, setExportItems] = useState<ExportItem[]>([])
   const [isExporting, setIsExporting] = useState(false)
   const [exportProgress, setExportProgress] = useState(0)
   const [currentExportName, setCurrentExportName] = useState("")
   const [draggedItemId, setDraggedItemId] = useState<string | null>(null)
   const [dragOverItemId, setDragOverItemId] = useState<string | null>(null)
+  const [activeTab, setActiveTab] = useState("export")
+  // Enabled items that break an exclusive group or layer rule, shown before a bulk export starts
+  const [ruleWarnings, setRuleWarnings] = useState<{ itemId: string; name: string; messages: string[] }[] | null>(null)
+  const [refuseBrokenItems, setRefuseBrokenItems] = useState(false)
   const canvasRef = useRef<HTMLCanvasElement>(null)
 
   // Single export settings
@@ -71,6 +71,75 @@ export default function ExportManager({
     setIsDialogOpen(isOpen)
   }, [isOpen])
 
+  const createPresetItem = (preset: LayerPreset, id = `export-${preset.id}`): ExportItem => ({
+    id,
+    name: preset.name,
+    preset,
+    format: "png",
+    quality: 90,
+    enabled: true,
+  })
+
+  // A stack item carries the composed preset so rendering doesn't need to know about stacks
+  const createStackItem = useCallback(
+    (stack: PresetStack, id = `export-stack-${stack.id}`): ExportItem => ({
+      ...createPresetItem(PresetUtils.composeStack(stack, presets), id),
+      stackId: stack.id,
+    }),
+    [presets],
+  )
+
+  const createExportItems = useCallback(
+    (): ExportItem[] => [
+      ...presets.map((preset) => createPresetItem(preset)),
+      ...presetStacks.map((stack) => createStackItem(stack)),
+    ],
+    [presets, presetStacks, createStackItem],
+  )
+
+  // Initialize export items from presets when the queue is empty, otherwise keep the
+  // (possibly restored) queue and refresh it against the current presets and stacks
+  const initializeExportItems = useCallback(() => {
+    setExportItems((prev) => {
+      if (prev.length === 0) {
+        return createExportItems()
+      }
+
+      return prev.flatMap((item) => {
+        if (item.stackId) {
+          const stack = presetStacks.find((s) => s.id === item.stackId)
+          return stack ? [{ ...item, preset: PresetUtils.composeStack(stack, presets), stackId: stack.id }] : []
+        }
+
+        if (item.presetIds) {
+          const isComplete = item.presetIds.every((id) => presets.some((p) => p.id === id))
+          return isComplete ? [{ ...item, preset: PresetMatrix.compose(item.presetIds, item.name, presets) }] : []
+        }
+
+        const preset = presets.find((p) => p.id === item.preset.id)
+        return preset ? [{ ...item, preset }] : []
+      })
+    })
+  }, [presets, presetStacks, createExportItems, setExportItems])
+
+  const resetExportItems = () => {
+    setExportItems(createExportItems())
+  }
+
+  // Values are "preset:<id>" or "stack:<id>"; the same entry may be queued more than once
+  const addExportItem = (value: string) => {
+    const [kind, sourceId] = [value.slice(0, value.indexOf(":")), value.slice(value.indexOf(":") + 1)]
+    const itemId = `export-${kind}-${sourceId}-${Date.now()}`
+
+    if (kind === "stack") {
+      const stack = presetStacks.find((s) => s.id === sourceId)
+      if (stack) setExportItems((prev) => [...prev, createStackItem(stack, itemId)])
+    } else {
+      const preset = presets.find((p) => p.id === sourceId)
+      if (preset) setExportItems((prev) => [...prev, createPresetItem(preset, itemId)])
+    }
+  }
+
   // Listen for bulk export events
   useEffect(() => {
     const handleBulkExport = () => {
@@ -80,21 +149,11 @@ export default function ExportManager({
 
     window.addEventListener("open-bulk-export", handleBulkExport)
     return () => window.removeEventListener("open-bulk-export", handleBulkExport)
-  }, [])
-
-  // Initialize export items from presets when dialog opens
-  const initializeExportItems = () => {
-    if (presets.length > 0) {
-      const items: ExportItem[] = presets.map((preset) => ({
-        id: `export-${preset.id}`,
-        name: preset.name,
-        preset,
-        format: "png",
-        quality: 90,
-        enabled: true,
-      }))
-      setExportItems(items)
-    }
+  }, [initializeExportItems])
+
+  const addMatrixItems = (items: ExportItem[]) => {
+    setExportItems((prev) => [...prev, ...items])
+    setActiveTab("bulk")
   }
 
   const updateExportItem = (id: string, updates: Partial<ExportItem>) => {
@@ -163,61 +222,19 @@ export default function ExportManager({
     setDragOverItemId(null)
   }
 
-  const captureCanvas = async (layerStates?: Record<string, boolean>): Promise<string> => {
-    return new Promise((resolve) => {
-      const canvas = canvasRef.current
-      if (!canvas) {
-        resolve("")
-        return
-      }
-
-      const ctx = canvas.getContext("2d")
-      if (!ctx) {
-        resolve("")
-        return
-      }
-
-      // Set canvas size
-      canvas.width = canvasWidth
-      canvas.height = canvasHeight
-
-      // Clear canvas
-      ctx.clearRect(0, 0, canvasWidth, canvasHeight)
-
-      // Apply layer states if provided, sort by z-index
-      const currentLayers = layerStates
-        ? layers.filter((layer) => layerStates[layer.id]).sort((a, b) => a.zIndex - b.zIndex)
-        : layers.filter((layer) => layer.isVisible).sort((a, b) => a.zIndex - b.zIndex)
+  const captureCanvas = async (preset?: LayerPreset): Promise<string> => {
+    const canvas = canvasRef.current
+    if (!canvas) {
+      return ""
+    }
 
-      let loadedImages = 0
-      const totalImages = currentLayers.length
+    // Apply preset states if provided, folder visibility cascades
+    const currentLayers = preset
+      ? LayerTree.getVisibleLayers(PresetUtils.applyToLayers(layers, preset), PresetUtils.applyToFolders(folders, preset))
+      : LayerTree.getVisibleLayers(layers, folders)
 
-      if (totalImages === 0) {
-        resolve(canvas.toDataURL("image/png"))
-        return
-      }
-
-      currentLayers.forEach((layer) => {
-        const img = new Image()
-        img.crossOrigin = "anonymous"
-        img.onload = () => {
-          // Draw image to fit canvas
-          ctx.drawImage(img, 0, 0, canvasWidth, canvasHeight)
-
-          loadedImages++
-          if (loadedImages === totalImages) {
-            resolve(canvas.toDataURL("image/png"))
-          }
-        }
-        img.onerror = () => {
-          loadedImages++
-          if (loadedImages === totalImages) {
-            resolve(canvas.toDataURL("image/png"))
-          }
-        }
-        img.src = layer.src
-      })
-    })
+    await Compositor.renderToCanvas(canvas, currentLayers, canvasWidth, canvasHeight)
+    return canvas.toDataURL("image/png")
   }
 
   const downloadImage = (dataUrl: string, filename: string, format: "png" | "jpg", quality: number) => {
@@ -257,8 +274,7 @@ export default function ExportManager({
     }
   }
 
-  const exportBulk = async () => {
-    const enabledItems = exportItems.filter((item) => item.enabled)
+  const exportBulk = async (enabledItems = exportItems.filter((item) => item.enabled)) => {
     if (enabledItems.length === 0) return
 
     setIsExporting(true)
@@ -268,12 +284,7 @@ export default function ExportManager({
       const item = enabledItems[i]
       setCurrentExportName(item.name)
 
-      // Apply preset
-      onApplyPreset(item.preset.layer_states)
-      // Wait a bit for state to update
-      await new Promise((resolve) => setTimeout(resolve, 100))
-
-      const dataUrl = await captureCanvas(item.preset.layer_states)
+      const dataUrl = await captureCanvas(item.preset)
       if (dataUrl) {
         downloadImage(dataUrl, item.name, item.format, item.quality)
       }
@@ -289,12 +300,33 @@ export default function ExportManager({
     setExportProgress(0)
   }
 
-  const getPresetSummary = (preset: LayerPreset) => {
-    const visibleCount = Object.values(preset.layer_states).filter(Boolean).length
-    const totalCount = Object.keys(preset.layer_states).length
-    return `${visibleCount}/${totalCount} visible`
+  const getViolationMessages = (item: ExportItem) =>
+    [
+      ...ExclusiveGroups.getPresetViolations(exclusiveGroups, item.preset, layers, folders),
+      ...LayerRules.getPresetViolations(layerRules, item.preset, layers, folders),
+    ].map((violation) => violation.message)
+
+  const startBulkExport = () => {
+    const warnings = exportItems
+      .filter((item) => item.enabled)
+      .map((item) => ({ itemId: item.id, name: item.name, messages: getViolationMessages(item) }))
+      .filter((warning) => warning.messages.length > 0)
+
+    if (warnings.length > 0) {
+      setRuleWarnings(warnings)
+      return
+    }
+    exportBulk()
   }
 
+  const exportWithoutBrokenItems = () => {
+    const brokenIds = new Set(ruleWarnings?.map((warning) => warning.itemId))
+    setRuleWarnings(null)
+    exportBulk(exportItems.filter((item) => item.enabled && !brokenIds.has(item.id)))
+  }
+
+  const getPresetSummary = (preset: LayerPreset) => PresetUtils.getSummary(preset, layers)
+
   const handleDialogOpenChange = (open: boolean) => {
     setIsDialogOpen(open)
     if (onOpenChange) {
@@ -315,10 +347,11 @@ export default function ExportManager({
             <DialogTitle>Export Images</DialogTitle>
           </DialogHeader>
 
-          <Tabs defaultValue="export" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="export">Export</TabsTrigger>
               <TabsTrigger value="bulk">Bulk Export</TabsTrigger>
+              <TabsTrigger value="matrix">Matrix</TabsTrigger>
             </TabsList>
 
             <TabsContent value="export" className="space-y-4">
@@ -379,6 +412,9 @@ export default function ExportManager({
                     Bulk Export from Presets
                   </h4>
                   <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={resetExportItems} title="Rebuild the queue from all presets and stacks">
+                      Reset
+                    </Button>
                     <Button variant="outline" size="sm" onClick={() => toggleAllExportItems(true)}>
                       Select All
                     </Button>
@@ -388,6 +424,26 @@ export default function ExportManager({
                   </div>
                 </div>
 
+                {(presets.length > 0 || presetStacks.length > 0) && (
+                  <Select value="" onValueChange={addExportItem}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Add a preset or stack to the queue..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {presets.map((preset) => (
+                        <SelectItem key={preset.id} value={`preset:${preset.id}`}>
+                          {preset.name}
+                        </SelectItem>
+                      ))}
+                      {presetStacks.map((stack) => (
+                        <SelectItem key={stack.id} value={`stack:${stack.id}`}>
+                          Stack: {stack.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
                 {exportItems.length === 0 ? (
                   <div className="text-center py-8 text-gray-500">
                     <p>No presets available for bulk export.</p>
@@ -425,7 +481,15 @@ export default function ExportManager({
                               onChange={(e) => updateExportItem(item.id, { name: e.target.value })}
                               className="text-sm"
                             />
-                            <div className="text-xs text-gray-500 mt-1">{getPresetSummary(item.preset)}</div>
+                            <div className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                              {(item.stackId || item.presetIds) && <Layers className="w-3 h-3" />}
+                              {getPresetSummary(item.preset)}
+                              {getViolationMessages(item).length > 0 && (
+                                <span title={getViolationMessages(item).join("\n")}>
+                                  <AlertTriangle className="w-3 h-3 text-amber-500" />
+                                </span>
+                              )}
+                            </div>
                           </div>
 
                           <Select
@@ -472,8 +536,53 @@ export default function ExportManager({
                       </div>
                     )}
 
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox checked={refuseBrokenItems} onCheckedChange={(checked) => setRefuseBrokenItems(!!checked)} />
+                      Refuse to export items that break exclusive groups or layer rules
+                    </label>
+
+                    {ruleWarnings && (
+                      <div className="space-y-2 border border-amber-300 bg-amber-50 rounded-md p-2 text-sm">
+                        <div className="flex items-center gap-2 font-medium text-amber-700">
+                          <AlertTriangle className="w-4 h-4" />
+                          {ruleWarnings.length} item{ruleWarnings.length === 1 ? "" : "s"} break exclusive groups or layer rules
+                        </div>
+                        <div className="max-h-32 overflow-y-auto space-y-1">
+                          {ruleWarnings.map((warning) => (
+                            <div key={warning.itemId} className="text-xs text-amber-700">
+                              <span className="font-medium">{warning.name}</span>: {warning.messages.join("; ")}
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setRuleWarnings(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={exportWithoutBrokenItems}
+                            disabled={ruleWarnings.length === exportItems.filter((item) => item.enabled).length}
+                          >
+                            Skip Them
+                          </Button>
+                          {!refuseBrokenItems && (
+                            <Button
+                              size="sm"
+                              onClick={() => {
+                                setRuleWarnings(null)
+                                exportBulk()
+                              }}
+                            >
+                              Export Anyway
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
                     <Button
-                      onClick={exportBulk}
+                      onClick={startBulkExport}
                       disabled={exportItems.filter((item) => item.enabled).length === 0 || isExporting}
                       className="w-full"
                     >
@@ -485,6 +594,10 @@ export default function ExportManager({
                 )}
               </div>
             </TabsContent>
+
+            <TabsContent value="matrix" className="space-y-4">
+              <MatrixBuilder presets={presets} onAddItems={addMatrixItems} />
+            </TabsContent>
           </Tabs>
         </DialogContent>
       </Dialog>
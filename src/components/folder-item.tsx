@@ -0,0 +1,78 @@
+"use client"
+
+import type React from "react"
+import { Switch } from "@/components/ui/switch"
+import { ChevronDown, ChevronRight, Folder, FolderOpen, GripVertical } from "lucide-react"
+import type { DropPosition } from "@/utils/layer-tree"
+
+interface FolderItemProps {
+  id: string
+  name: string
+  depth: number
+  isVisible: boolean
+  isExpanded: boolean
+  layerCount: number
+  isDragging: boolean
+  dragOverPosition: DropPosition | null
+  onToggleVisibility: (id: string) => void
+  onToggleExpanded: (id: string) => void
+  onDragStart: (e: React.DragEvent, id: string) => void
+  onDragEnd: (e: React.DragEvent) => void
+  onDragOver: (e: React.DragEvent, id: string) => void
+  onDragLeave: (e: React.DragEvent) => void
+  onDrop: (e: React.DragEvent, targetId: string) => void
+}
+
+export default function FolderItem({
+  id,
+  name,
+  depth,
+  isVisible,
+  isExpanded,
+  layerCount,
+  isDragging,
+  dragOverPosition,
+  onToggleVisibility,
+  onToggleExpanded,
+  onDragStart,
+  onDragEnd,
+  onDragOver,
+  onDragLeave,
+  onDrop,
+}: FolderItemProps) {
+  return (
+    <div
+      draggable
+      onDragStart={(e) => onDragStart(e, id)}
+      onDragEnd={onDragEnd}
+      onDragOver={(e) => onDragOver(e, id)}
+      onDragLeave={onDragLeave}
+      onDrop={(e) => onDrop(e, id)}
+      style={{ marginLeft: depth * 16 }}
+      className={`flex items-center gap-2 p-2 border rounded-md cursor-pointer bg-gray-50 transition-all border-gray-200 hover:border-gray-300 ${
+        isDragging ? "opacity-50 scale-95" : ""
+      } ${dragOverPosition === "inside" ? "border-green-500 bg-green-50 border-2" : ""} ${
+        dragOverPosition === "above" ? "border-t-4 border-t-green-500" : ""
+      } ${dragOverPosition === "below" ? "border-b-4 border-b-green-500" : ""}`}
+      onClick={() => onToggleExpanded(id)}
+    >
+      <div className="cursor-grab active:cursor-grabbing text-gray-400 hover:text-gray-600">
+        <GripVertical className="w-4 h-4" />
+      </div>
+
+      <Switch
+        checked={isVisible}
+        onCheckedChange={() => onToggleVisibility(id)}
+        onClick={(e) => e.stopPropagation()}
+      />
+
+      {isExpanded ? <ChevronDown className="w-4 h-4 text-gray-500" /> : <ChevronRight className="w-4 h-4 text-gray-500" />}
+      {isExpanded ? <FolderOpen className="w-4 h-4 text-amber-600" /> : <Folder className="w-4 h-4 text-amber-600" />}
+
+      <div className={`flex-1 min-w-0 ${isVisible ? "" : "text-gray-400"}`}>
+        <div className="font-medium text-sm truncate">{name}</div>
+        <div className="text-xs text-gray-500">{layerCount} layers</div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Circle, CircleDot } from "lucide-react"
+import type { HistoryState } from "@/utils/document-history"
+
+interface HistoryPanelProps {
+  isOpen: boolean
+  history: HistoryState
+  depth: number
+  onJump: (pastLength: number) => void
+  onDepthChange: (depth: number) => void
+  onClose: () => void
+}
+
+export default function HistoryPanel({ isOpen, history, depth, onJump, onDepthChange, onClose }: HistoryPanelProps) {
+  // Row 0 is the document before the oldest remembered step; clicking a row
+  // undoes or redoes until that step is the last one applied
+  const rows = [
+    { key: "start", label: "Start", pastLength: 0 },
+    ...history.past.map((step, index) => ({ key: String(step.id), label: step.label, pastLength: index + 1 })),
+    ...history.future.map((step, index) => ({
+      key: String(step.id),
+      label: step.label,
+      pastLength: history.past.length + index + 1,
+    })),
+  ]
+
+  return (
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-md max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>History</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-1 max-h-96 overflow-y-auto border rounded-md p-2">
+            {rows.map((row) => {
+              const isCurrent = row.pastLength === history.past.length
+              const isUndone = row.pastLength > history.past.length
+              return (
+                  <button
+                      key={row.key}
+                      className={`w-full flex items-center gap-2 px-2 py-1 rounded text-sm text-left hover:bg-gray-100 ${
+                          isCurrent ? "bg-blue-50 font-medium" : ""
+                      } ${isUndone ? "text-gray-400" : ""}`}
+                      onClick={() => onJump(row.pastLength)}
+                  >
+                    {isCurrent ? (
+                        <CircleDot className="w-3 h-3 text-blue-500 flex-shrink-0" />
+                    ) : (
+                        <Circle className="w-3 h-3 flex-shrink-0" />
+                    )}
+                    <span className="truncate">{row.label}</span>
+                  </button>
+              )
+            })}
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Remember
+              <Input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={depth}
+                  onChange={(e) => {
+                    const value = Number.parseInt(e.target.value, 10)
+                    if (value >= 1) onDepthChange(Math.min(1000, value))
+                  }}
+                  className="w-20 h-8"
+              />
+              steps
+            </label>
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+  )
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertTriangle } from "lucide-react"
+import type { MergePreview } from "@/utils/tasks"
+import type { MergeSelection } from "@/utils/project-merge"
+
+interface ImportProjectDialogProps {
+  preview: MergePreview | null
+  canvasWidth: number
+  canvasHeight: number
+  onImport: (selection: MergeSelection) => void
+  onCancel: () => void
+}
+
+export default function ImportProjectDialog({ preview, canvasWidth, canvasHeight, onImport, onCancel }: ImportProjectDialogProps) {
+  const [selectedLayerIds, setSelectedLayerIds] = useState<Set<string>>(new Set())
+  const [selectedPresetIds, setSelectedPresetIds] = useState<Set<string>>(new Set())
+
+  // Everything is selected when a new file is previewed
+  useEffect(() => {
+    setSelectedLayerIds(new Set(preview?.project.layers.map((layer) => layer.id) ?? []))
+    setSelectedPresetIds(new Set(preview?.project.presets.map((preset) => preset.id) ?? []))
+  }, [preview])
+
+  // Top layer first, like the layer panel, with the folder each one is in
+  const layerRows = useMemo(() => {
+    if (!preview) return []
+    const folderById = new Map(preview.project.folders.map((folder) => [folder.id, folder]))
+    const getFolderPath = (folderId: string | null | undefined) => {
+      const names: string[] = []
+      const visited = new Set<string>()
+      while (folderId && !visited.has(folderId)) {
+        visited.add(folderId)
+        const folder = folderById.get(folderId)
+        if (!folder) break
+        names.unshift(folder.name)
+        folderId = folder.parent_id
+      }
+      return names.join(" / ")
+    }
+
+    return [...preview.project.layers]
+        .sort((a, b) => b.z_index - a.z_index)
+        .map((layer) => ({ id: layer.id, name: layer.name, folderPath: getFolderPath(layer.parent_id) }))
+  }, [preview])
+
+  const toggle = (ids: Set<string>, id: string, checked: boolean) => {
+    const next = new Set(ids)
+    if (checked) next.add(id)
+    else next.delete(id)
+    return next
+  }
+
+  const canvas = preview?.project.canvas
+  const isCanvasDifferent = canvas !== undefined && (canvas.width !== canvasWidth || canvas.height !== canvasHeight)
+
+  return (
+      <Dialog open={preview !== null} onOpenChange={(open) => !open && onCancel()}>
+        <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import from {preview?.fileName}</DialogTitle>
+          </DialogHeader>
+
+          {isCanvasDifferent && (
+              <div className="flex items-center gap-2 text-sm text-amber-600">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                Canvas is {canvas.width}x{canvas.height}, the open project is {canvasWidth}x{canvasHeight}. Layers keep
+                their positions.
+              </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">
+                Layers ({selectedLayerIds.size}/{layerRows.length})
+              </h3>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => setSelectedLayerIds(new Set(layerRows.map((row) => row.id)))}>
+                  All
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setSelectedLayerIds(new Set())}>
+                  None
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-1 max-h-60 overflow-y-auto border rounded-md p-2">
+              {layerRows.map((row) => (
+                  <label key={row.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                        checked={selectedLayerIds.has(row.id)}
+                        onCheckedChange={(checked) => setSelectedLayerIds((prev) => toggle(prev, row.id, !!checked))}
+                    />
+                    <span className="truncate">{row.name}</span>
+                    {row.folderPath && <span className="text-xs text-gray-500 truncate">{row.folderPath}</span>}
+                  </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">
+              Presets ({selectedPresetIds.size}/{preview?.project.presets.length ?? 0})
+            </h3>
+            <div className="space-y-1 max-h-40 overflow-y-auto border rounded-md p-2">
+              {preview?.project.presets.length === 0 && (
+                  <div className="text-center py-2 text-sm text-gray-400">No presets in this project</div>
+              )}
+              {preview?.project.presets.map((preset) => (
+                  <label key={preset.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                        checked={selectedPresetIds.has(preset.id)}
+                        onCheckedChange={(checked) => setSelectedPresetIds((prev) => toggle(prev, preset.id, !!checked))}
+                    />
+                    <span className="truncate">{preset.name}</span>
+                  </label>
+              ))}
+            </div>
+            <div className="text-xs text-gray-500">Imported presets only affect the layers imported with them.</div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+                onClick={() => onImport({ layerIds: [...selectedLayerIds], presetIds: [...selectedPresetIds] })}
+                disabled={selectedLayerIds.size + selectedPresetIds.size === 0}
+            >
+              Import
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+  )
+}
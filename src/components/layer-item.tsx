@@ -3,7 +3,13 @@
 import type React from "react"
 import Image from "next/image"
 import { Switch } from "@/components/ui/switch"
-import { Eye, EyeOff, GripVertical } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, CornerDownRight, Eye, EyeOff, GripVertical, VenetianMask } from "lucide-react"
+import type { DropPosition } from "@/utils/layer-tree"
+import { BLEND_MODES } from "@/utils/compositor"
+import { AssetStatusChecker } from "@/utils/asset-status"
+import type { AssetStatus, BlendMode } from "@/types/project"
 
 interface LayerItemProps {
   id: string
@@ -14,9 +20,21 @@ interface LayerItemProps {
   isVisible: boolean
   isSelected: boolean
   isDragging: boolean
-  isDragOver: boolean
+  dragOverPosition: DropPosition | null
   zIndex: number
+  opacity: number
+  blendMode: BlendMode
+  clipping: boolean
+  hasMask: boolean
+  maskEnabled: boolean
+  assetStatus: AssetStatus
+  depth?: number
+  isHiddenByFolder?: boolean
   onToggleVisibility: (id: string) => void
+  onOpacityChange: (id: string, opacity: number) => void
+  onBlendModeChange: (id: string, blendMode: BlendMode) => void
+  onToggleClipping: (id: string) => void
+  onToggleMask: (id: string) => void
   onSelect: (id: string) => void
   onDragStart: (e: React.DragEvent, id: string) => void
   onDragEnd: (e: React.DragEvent) => void
@@ -34,9 +52,21 @@ export default function LayerItem({
   isVisible,
   isSelected,
   isDragging,
-  isDragOver,
+  dragOverPosition,
   zIndex,
+  opacity,
+  blendMode,
+  clipping,
+  hasMask,
+  maskEnabled,
+  assetStatus,
+  depth = 0,
+  isHiddenByFolder = false,
   onToggleVisibility,
+  onOpacityChange,
+  onBlendModeChange,
+  onToggleClipping,
+  onToggleMask,
   onSelect,
   onDragStart,
   onDragEnd,
@@ -52,32 +82,115 @@ export default function LayerItem({
       onDragOver={(e) => onDragOver(e, id)}
       onDragLeave={onDragLeave}
       onDrop={(e) => onDrop(e, id)}
-      className={`flex items-center gap-2 p-2 border rounded-md cursor-pointer transition-all ${
+      style={{ marginLeft: depth * 16 + (clipping ? 16 : 0) }}
+      className={`p-2 border rounded-md cursor-pointer transition-all ${
         isSelected ? "border-blue-500 bg-blue-50" : "border-gray-200 hover:border-gray-300"
-      } ${isDragging ? "opacity-50 scale-95" : ""} ${isDragOver ? "border-green-500 bg-green-50 border-2" : ""}`}
+      } ${isDragging ? "opacity-50 scale-95" : ""} ${
+        dragOverPosition === "above" ? "border-t-4 border-t-green-500" : ""
+      } ${dragOverPosition === "below" ? "border-b-4 border-b-green-500" : ""}`}
       onClick={() => onSelect(id)}
     >
-      <div className="cursor-grab active:cursor-grabbing text-gray-400 hover:text-gray-600">
-        <GripVertical className="w-4 h-4" />
-      </div>
+      <div className="flex items-center gap-2">
+        <div className="cursor-grab active:cursor-grabbing text-gray-400 hover:text-gray-600">
+          <GripVertical className="w-4 h-4" />
+        </div>
 
-      <Switch
-        checked={isVisible}
-        onCheckedChange={() => onToggleVisibility(id)}
-        onClick={(e) => e.stopPropagation()}
-      />
-      {isVisible ? <Eye className="w-4 h-4 text-gray-600" /> : <EyeOff className="w-4 h-4 text-gray-400" />}
+        <Switch
+          checked={isVisible}
+          onCheckedChange={() => onToggleVisibility(id)}
+          onClick={(e) => e.stopPropagation()}
+        />
+        {isVisible ? <Eye className="w-4 h-4 text-gray-600" /> : <EyeOff className="w-4 h-4 text-gray-400" />}
+        {clipping && (
+          <span title="Clipped to the layer below">
+            <CornerDownRight className="w-4 h-4 text-purple-500" />
+          </span>
+        )}
 
-      <div className="relative w-10 h-10 border rounded overflow-hidden bg-gray-100 flex-shrink-0">
-        <Image src={src || "/placeholder.svg"} alt={name} fill className="object-cover" />
-      </div>
+        <div className="relative w-10 h-10 border rounded overflow-hidden bg-gray-100 flex-shrink-0">
+          <Image src={src} alt={name} fill className="object-cover" unoptimized />
+          {AssetStatusChecker.isProblem(assetStatus) && (
+            <div
+              className={`absolute bottom-0 right-0 rounded-tl p-0.5 ${
+                assetStatus === "size-mismatch" ? "bg-amber-500" : "bg-red-500"
+              }`}
+              title={AssetStatusChecker.getLabel(assetStatus)}
+            >
+              <AlertTriangle className="w-3 h-3 text-white" />
+            </div>
+          )}
+        </div>
 
-      <div className="flex-1 min-w-0">
-        <div className="font-medium text-sm truncate">{name}</div>
-        <div className="text-xs text-gray-500">
-          {width}×{height} • Z:{zIndex}
+        <div className={`flex-1 min-w-0 ${isHiddenByFolder ? "opacity-50" : ""}`}>
+          <div className="font-medium text-sm truncate" title={isHiddenByFolder ? "Hidden by folder" : undefined}>
+            {name}
+          </div>
+          <div className="text-xs text-gray-500">
+            {width}×{height} • Z:{zIndex}
+            {(opacity < 1 || blendMode !== "normal") && ` • ${Math.round(opacity * 100)}% ${blendMode}`}
+          </div>
         </div>
+
+        {hasMask && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0 flex-shrink-0"
+            onClick={(e) => {
+              e.stopPropagation()
+              onToggleMask(id)
+            }}
+            title={maskEnabled ? "Mask enabled (click to disable)" : "Mask disabled (click to enable)"}
+          >
+            <VenetianMask className={`w-4 h-4 ${maskEnabled ? "text-indigo-600" : "text-gray-300"}`} />
+          </Button>
+        )}
       </div>
+
+      {/* Appearance controls for the selected layer */}
+      {isSelected && (
+        <div
+          className="flex items-center gap-2 mt-2 pl-6"
+          onClick={(e) => e.stopPropagation()}
+          onDragStart={(e) => {
+            // Let the slider be dragged without moving the layer
+            e.preventDefault()
+            e.stopPropagation()
+          }}
+        >
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(opacity * 100)}
+            onChange={(e) => onOpacityChange(id, Number(e.target.value) / 100)}
+            className="flex-1"
+            title="Opacity"
+          />
+          <span className="text-xs text-gray-500 w-9 text-right">{Math.round(opacity * 100)}%</span>
+          <Select value={blendMode} onValueChange={(value: BlendMode) => onBlendModeChange(id, value)}>
+            <SelectTrigger className="w-28 h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BLEND_MODES.map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {mode}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant={clipping ? "default" : "outline"}
+            className="h-7 px-2"
+            onClick={() => onToggleClipping(id)}
+            title="Clip to layer below"
+          >
+            <CornerDownRight className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
     </div>
   )
 }
@@ -4,24 +4,22 @@ import type React from "react"
 
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
-import { Plus, Trash2 } from "lucide-react"
+import { AlertTriangle, Link2, ListChecks, Plus, Trash2, Workflow } from "lucide-react"
 import LayerItem from "./layer-item"
+import FolderItem from "./folder-item"
 import PresetManager from "./preset-manager"
-import type { LayerPreset } from "@/types/project"
-
-interface Layer {
-  id: string
-  name: string
-  src: string
-  file_path: string
-  width: number
-  height: number
-  isVisible: boolean
-  zIndex: number
-}
+import ExclusiveGroupsDialog from "./exclusive-groups-dialog"
+import LayerRulesDialog from "./layer-rules-dialog"
+import { LayerTree } from "@/utils/layer-tree"
+import { AssetStatusChecker } from "@/utils/asset-status"
+import { ExclusiveGroups } from "@/utils/exclusive-groups"
+import { LayerRules } from "@/utils/layer-rules"
+import type { DropPosition } from "@/utils/layer-tree"
+import type { Layer, LayerFolder, LayerPreset, PresetStack, ExclusiveGroup, LayerRule, BlendMode } from "@/types/project"
 
 interface LayerPanelProps {
   layers: Layer[]
+  folders: LayerFolder[]
   selectedLayerId: string | null
   canvasWidth: number
   canvasHeight: number
@@ -31,32 +29,95 @@ interface LayerPanelProps {
   viewportWidth: number
   viewportHeight: number
   presets: LayerPreset[]
+  presetBaseline: LayerPreset | null
+  presetStacks: PresetStack[]
+  exclusiveGroups: ExclusiveGroup[]
+  layerRules: LayerRule[]
+  autoApplyRules: boolean
   onLayerToggleVisibility: (id: string) => void
+  onLayerOpacityChange: (id: string, opacity: number) => void
+  onLayerBlendModeChange: (id: string, blendMode: BlendMode) => void
+  onLayerToggleClipping: (id: string) => void
+  onLayerToggleMask: (id: string) => void
+  onFolderToggleVisibility: (id: string) => void
+  onFolderToggleExpanded: (id: string) => void
   onLayerSelect: (id: string) => void
   onPanChange: (x: number, y: number) => void
   onAddLayer: () => void
   onDeleteLayer: (id: string) => void
-  onApplyPreset: (layerStates: Record<string, boolean>) => void
-  onReorderLayers: (draggedId: string, targetId: string) => void
-  onPresetsChange: (presets: LayerPreset[]) => void
+  onApplyPreset: (preset: LayerPreset) => void
+  onReorderLayers: (draggedId: string, targetId: string, position: DropPosition) => void
+  onPresetsChange: React.Dispatch<React.SetStateAction<LayerPreset[]>>
+  onPresetStacksChange: React.Dispatch<React.SetStateAction<PresetStack[]>>
+  onApplyStack: (stack: PresetStack) => void
+  onExclusiveGroupsChange: React.Dispatch<React.SetStateAction<ExclusiveGroup[]>>
+  onLayerRulesChange: React.Dispatch<React.SetStateAction<LayerRule[]>>
+  onAutoApplyRulesChange: (autoApply: boolean) => void
+  onExportPresetLibrary: () => void
+  onImportPresetLibrary: () => void
+  onOpenReconcile: () => void
+  presetThumbnails: Record<string, string>
+  saveThumbnails: boolean
+  onSaveThumbnailsChange: (saveThumbnails: boolean) => void
+  onHoverPreset: (preset: LayerPreset | null) => void
+  onOpenRelink: () => void
 }
 
 export default function LayerPanel({
   layers,
+  folders,
   selectedLayerId,
   canvasWidth,
   canvasHeight,
   presets,
+  presetBaseline,
+  presetStacks,
+  exclusiveGroups,
+  layerRules,
+  autoApplyRules,
   onLayerToggleVisibility,
+  onLayerOpacityChange,
+  onLayerBlendModeChange,
+  onLayerToggleClipping,
+  onLayerToggleMask,
+  onFolderToggleVisibility,
+  onFolderToggleExpanded,
   onLayerSelect,
   onAddLayer,
   onDeleteLayer,
   onApplyPreset,
   onReorderLayers,
   onPresetsChange,
+  onPresetStacksChange,
+  onApplyStack,
+  onExclusiveGroupsChange,
+  onLayerRulesChange,
+  onAutoApplyRulesChange,
+  onExportPresetLibrary,
+  onImportPresetLibrary,
+  onOpenReconcile,
+  presetThumbnails,
+  saveThumbnails,
+  onSaveThumbnailsChange,
+  onHoverPreset,
+  onOpenRelink,
 }: LayerPanelProps) {
   const [draggedLayerId, setDraggedLayerId] = useState<string | null>(null)
   const [dragOverLayerId, setDragOverLayerId] = useState<string | null>(null)
+  const [dragOverPosition, setDragOverPosition] = useState<DropPosition | null>(null)
+  const [isGroupsOpen, setIsGroupsOpen] = useState(false)
+  const [isRulesOpen, setIsRulesOpen] = useState(false)
+
+  const folderIds = new Set(folders.map((folder) => folder.id))
+
+  // Upper half drops above the target; lower half drops below a layer or into a folder
+  const getDropPosition = (e: React.DragEvent, targetId: string): DropPosition => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    if (e.clientY < rect.top + rect.height / 2) {
+      return "above"
+    }
+    return folderIds.has(targetId) ? "inside" : "below"
+  }
 
   const handleDragStart = (e: React.DragEvent, layerId: string) => {
     setDraggedLayerId(layerId)
@@ -67,6 +128,7 @@ export default function LayerPanel({
   const handleDragEnd = () => {
     setDraggedLayerId(null)
     setDragOverLayerId(null)
+    setDragOverPosition(null)
   }
 
   const handleDragOver = (e: React.DragEvent, layerId: string) => {
@@ -75,6 +137,7 @@ export default function LayerPanel({
 
     if (draggedLayerId && draggedLayerId !== layerId) {
       setDragOverLayerId(layerId)
+      setDragOverPosition(getDropPosition(e, layerId))
     }
   }
 
@@ -85,6 +148,7 @@ export default function LayerPanel({
 
     if (x < rect.left || x > rect.right || y < rect.top || y > rect.bottom) {
       setDragOverLayerId(null)
+      setDragOverPosition(null)
     }
   }
 
@@ -93,15 +157,21 @@ export default function LayerPanel({
     const draggedId = e.dataTransfer.getData("text/plain")
 
     if (draggedId && draggedId !== targetId) {
-      onReorderLayers(draggedId, targetId)
+      onReorderLayers(draggedId, targetId, getDropPosition(e, targetId))
     }
 
     setDraggedLayerId(null)
     setDragOverLayerId(null)
+    setDragOverPosition(null)
   }
 
-  // Sort layers by z-index for display (highest z-index first in UI)
-  const displayLayers = layers.slice().sort((a, b) => b.zIndex - a.zIndex)
+  // Folder tree for display (highest z-index first in UI)
+  const tree = LayerTree.buildTree(layers, folders)
+  const displayNodes = LayerTree.getDisplayNodes(tree)
+  const visibleCount = LayerTree.getVisibleLayers(layers, folders).length
+  const problemCount = layers.filter((layer) => AssetStatusChecker.isProblem(layer.assetStatus)).length
+  const exclusiveViolationCount = ExclusiveGroups.getViolations(exclusiveGroups, layers, folders).length
+  const ruleViolations = LayerRules.getViolations(layerRules, layers, folders)
 
   return (
     <div className="w-80 bg-white border-l border-gray-200 flex flex-col h-full">
@@ -110,6 +180,12 @@ export default function LayerPanel({
         <div className="flex items-center justify-between mb-2">
           <h2 className="font-semibold text-gray-800">Layers</h2>
           <div className="flex gap-1">
+            <Button variant="outline" size="sm" onClick={() => setIsRulesOpen(true)} title="Layer Rules">
+              <Workflow className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsGroupsOpen(true)} title="Exclusive Groups">
+              <ListChecks className="w-4 h-4" />
+            </Button>
             <Button variant="outline" size="sm" onClick={onAddLayer} title="Add Layer">
               <Plus className="w-4 h-4" />
             </Button>
@@ -134,28 +210,61 @@ export default function LayerPanel({
             <p className="text-xs mt-1">Open a project file to get started</p>
           </div>
         ) : (
-          displayLayers.map((layer) => (
-            <LayerItem
-              key={layer.id}
-              id={layer.id}
-              name={layer.name}
-              src={layer.src}
-              width={layer.width}
-              height={layer.height}
-              isVisible={layer.isVisible}
-              isSelected={selectedLayerId === layer.id}
-              isDragging={draggedLayerId === layer.id}
-              isDragOver={dragOverLayerId === layer.id}
-              zIndex={layer.zIndex}
-              onToggleVisibility={onLayerToggleVisibility}
-              onSelect={onLayerSelect}
-              onDragStart={handleDragStart}
-              onDragEnd={handleDragEnd}
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              onDrop={handleDrop}
-            />
-          ))
+          displayNodes.map((node) =>
+            node.type === "folder" ? (
+              <FolderItem
+                key={node.folder.id}
+                id={node.folder.id}
+                name={node.folder.name}
+                depth={node.depth}
+                isVisible={node.folder.isVisible}
+                isExpanded={node.folder.isExpanded}
+                layerCount={LayerTree.getDescendantLayerIds(node.folder.id, layers, folders).length}
+                isDragging={draggedLayerId === node.folder.id}
+                dragOverPosition={dragOverLayerId === node.folder.id ? dragOverPosition : null}
+                onToggleVisibility={onFolderToggleVisibility}
+                onToggleExpanded={onFolderToggleExpanded}
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+              />
+            ) : (
+              <LayerItem
+                key={node.layer.id}
+                id={node.layer.id}
+                name={node.layer.name}
+                src={node.layer.src}
+                width={node.layer.width}
+                height={node.layer.height}
+                isVisible={node.layer.isVisible}
+                isSelected={selectedLayerId === node.layer.id}
+                isDragging={draggedLayerId === node.layer.id}
+                dragOverPosition={dragOverLayerId === node.layer.id ? dragOverPosition : null}
+                zIndex={node.layer.zIndex}
+                opacity={node.layer.opacity}
+                blendMode={node.layer.blendMode}
+                clipping={node.layer.clipping}
+                hasMask={Boolean(node.layer.mask_path)}
+                maskEnabled={node.layer.maskEnabled}
+                assetStatus={node.layer.assetStatus}
+                depth={node.depth}
+                isHiddenByFolder={!LayerTree.isFolderChainVisible(node.layer.parentId, folders)}
+                onToggleVisibility={onLayerToggleVisibility}
+                onOpacityChange={onLayerOpacityChange}
+                onBlendModeChange={onLayerBlendModeChange}
+                onToggleClipping={onLayerToggleClipping}
+                onToggleMask={onLayerToggleMask}
+                onSelect={onLayerSelect}
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+              />
+            ),
+          )
         )}
       </div>
 
@@ -163,16 +272,80 @@ export default function LayerPanel({
       <div className="p-3 border-t border-gray-200 text-xs text-gray-600">
         <div className="flex justify-between mb-1">
           <span>
-            {layers.filter((l) => l.isVisible).length} of {layers.length} visible
+            {visibleCount} of {layers.length} visible
           </span>
+          {problemCount > 0 && (
+            <button className="flex items-center gap-1 text-red-600 hover:underline" onClick={onOpenRelink}>
+              <Link2 className="w-3 h-3" />
+              Relink {problemCount} asset{problemCount === 1 ? "" : "s"}
+            </button>
+          )}
         </div>
+        {exclusiveViolationCount > 0 && (
+          <button className="flex items-center gap-1 mb-1 text-amber-600 hover:underline" onClick={() => setIsGroupsOpen(true)}>
+            <AlertTriangle className="w-3 h-3" />
+            {exclusiveViolationCount} exclusive group{exclusiveViolationCount === 1 ? "" : "s"} broken
+          </button>
+        )}
+        {ruleViolations.length > 0 && (
+          <div className="mb-1 max-h-20 overflow-y-auto space-y-0.5">
+            {ruleViolations.map((violation) => (
+              <button
+                key={violation.ruleId}
+                className="flex items-center gap-1 w-full text-left text-amber-600 hover:underline"
+                onClick={() => setIsRulesOpen(true)}
+              >
+                <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate">{violation.message}</span>
+              </button>
+            ))}
+          </div>
+        )}
         <div className="text-xs text-gray-500">
           Canvas: {canvasWidth}×{canvasHeight}px
         </div>
       </div>
 
       {/* Preset Manager */}
-      <PresetManager layers={layers} presets={presets} setPresets={onPresetsChange} onApplyPreset={onApplyPreset} />
+      <PresetManager
+        layers={layers}
+        folders={folders}
+        presets={presets}
+        baseline={presetBaseline}
+        setPresets={onPresetsChange}
+        onApplyPreset={onApplyPreset}
+        presetStacks={presetStacks}
+        setPresetStacks={onPresetStacksChange}
+        onApplyStack={onApplyStack}
+        exclusiveGroups={exclusiveGroups}
+        onExportLibrary={onExportPresetLibrary}
+        onImportLibrary={onImportPresetLibrary}
+        onOpenReconcile={onOpenReconcile}
+        thumbnails={presetThumbnails}
+        saveThumbnails={saveThumbnails}
+        onSaveThumbnailsChange={onSaveThumbnailsChange}
+        onHoverPreset={onHoverPreset}
+      />
+
+      <ExclusiveGroupsDialog
+        isOpen={isGroupsOpen}
+        groups={exclusiveGroups}
+        layers={layers}
+        folders={folders}
+        onGroupsChange={onExclusiveGroupsChange}
+        onClose={() => setIsGroupsOpen(false)}
+      />
+
+      <LayerRulesDialog
+        isOpen={isRulesOpen}
+        rules={layerRules}
+        layers={layers}
+        folders={folders}
+        autoApply={autoApplyRules}
+        onAutoApplyChange={onAutoApplyRulesChange}
+        onRulesChange={onLayerRulesChange}
+        onClose={() => setIsRulesOpen(false)}
+      />
     </div>
   )
 }
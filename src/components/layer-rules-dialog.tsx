@@ -0,0 +1,158 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, Plus, Trash2 } from "lucide-react"
+import { LayerRules, LAYER_RULE_KINDS } from "@/utils/layer-rules"
+import type { Layer, LayerFolder, LayerRule, LayerRuleKind } from "@/types/project"
+
+interface LayerRulesDialogProps {
+  isOpen: boolean
+  rules: LayerRule[]
+  layers: Layer[]
+  folders: LayerFolder[]
+  autoApply: boolean
+  onAutoApplyChange: (autoApply: boolean) => void
+  onRulesChange: React.Dispatch<React.SetStateAction<LayerRule[]>>
+  onClose: () => void
+}
+
+export default function LayerRulesDialog({
+  isOpen,
+  rules,
+  layers,
+  folders,
+  autoApply,
+  onAutoApplyChange,
+  onRulesChange,
+  onClose,
+}: LayerRulesDialogProps) {
+  const [sourceId, setSourceId] = useState("")
+  const [kind, setKind] = useState<LayerRuleKind>("requires")
+  const [targetId, setTargetId] = useState("")
+  const [targetVisible, setTargetVisible] = useState(false)
+
+  const violations = LayerRules.getViolations(rules, layers, folders)
+  const violatedRuleIds = new Set(violations.map((violation) => violation.ruleId))
+
+  // Folders first, then layers top-most first
+  const nodes = [
+    ...folders.map((folder) => ({ id: folder.id, label: `Folder: ${folder.name}` })),
+    ...[...layers].sort((a, b) => b.zIndex - a.zIndex).map((layer) => ({ id: layer.id, label: layer.name })),
+  ]
+
+  const canAdd = sourceId !== "" && targetId !== "" && sourceId !== targetId
+
+  const addRule = () => {
+    if (!canAdd) return
+
+    const rule: LayerRule = {
+      id: `rule-${Date.now()}`,
+      kind,
+      source_id: sourceId,
+      target_id: targetId,
+      target_visible: kind === "implies" ? targetVisible : true,
+    }
+    console.log("Adding layer rule:", rule)
+    onRulesChange((prev) => [...prev, rule])
+    setSourceId("")
+    setTargetId("")
+  }
+
+  const renderNodeSelect = (value: string, onChange: (id: string) => void, placeholder: string) => (
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="flex-1">
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {nodes.map((node) => (
+              <SelectItem key={node.id} value={node.id}>
+                {node.label}
+              </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+  )
+
+  return (
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Layer Rules</DialogTitle>
+          </DialogHeader>
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox checked={autoApply} onCheckedChange={(checked) => onAutoApplyChange(!!checked)} />
+            Apply rules when toggling layers
+          </label>
+
+          <div className="space-y-1">
+            {rules.length === 0 && <div className="text-center py-2 text-sm text-gray-400">No rules yet</div>}
+            {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center gap-2 p-2 border rounded-md text-sm">
+                  {violatedRuleIds.has(rule.id) && <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0" />}
+                  <span className="flex-1 truncate">{LayerRules.describe(rule, layers, folders)}</span>
+                  <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRulesChange((prev) => prev.filter((r) => r.id !== rule.id))}
+                      className="text-red-500 hover:text-red-700"
+                      title="Delete rule"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+            ))}
+          </div>
+
+          <div className="space-y-2 border-t pt-3">
+            <h3 className="text-sm font-medium">New Rule</h3>
+            <div className="flex items-center gap-2">
+              {renderNodeSelect(sourceId, setSourceId, "Layer or folder")}
+              <Select value={kind} onValueChange={(value: LayerRuleKind) => setKind(value)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LAYER_RULE_KINDS.map((ruleKind) => (
+                      <SelectItem key={ruleKind} value={ruleKind}>
+                        {ruleKind}
+                      </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              {renderNodeSelect(targetId, setTargetId, "Layer or folder")}
+              {kind === "implies" && (
+                  <Select value={targetVisible ? "shown" : "hidden"} onValueChange={(value) => setTargetVisible(value === "shown")}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="hidden">hidden</SelectItem>
+                      <SelectItem value="shown">shown</SelectItem>
+                    </SelectContent>
+                  </Select>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button onClick={addRule} disabled={!canAdd}>
+                <Plus className="w-3 h-3 mr-1" />
+                Add Rule
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+  )
+}
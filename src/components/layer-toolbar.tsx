@@ -11,7 +11,25 @@ import {
   DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { ZoomIn, ZoomOut, Maximize, RotateCcw, Move, Menu, FileIcon as FileOpen, Save, Download, Plus } from "lucide-react"
+import {
+  ZoomIn,
+  ZoomOut,
+  Maximize,
+  RotateCcw,
+  Move,
+  Menu,
+  FileIcon as FileOpen,
+  Save,
+  Download,
+  Plus,
+  FileInput,
+  FileOutput,
+  FolderOpen,
+  Combine,
+  Undo2,
+  Redo2,
+  History,
+} from "lucide-react"
 
 interface LayerToolbarProps {
   zoom: number
@@ -24,12 +42,21 @@ interface LayerToolbarProps {
   onFitToScreen: () => void
   onActualSize: () => void
   onOpen?: () => void
+  onOpenFolder?: () => void
+  onImportOra?: () => void
+  onImportProject?: () => void
+  onExportOra?: () => void
   onSave?: () => void
   onSaveAs?: () => void
   onNewProject?: () => void
   onQuickExportPNG?: () => void
   onQuickExportJPG?: () => void
   onBulkExport?: () => void
+  canUndo?: boolean
+  canRedo?: boolean
+  onUndo?: () => void
+  onRedo?: () => void
+  onOpenHistory?: () => void
 }
 
 export default function LayerToolbar({
@@ -43,12 +70,21 @@ export default function LayerToolbar({
                                        onFitToScreen,
                                        onActualSize,
                                        onOpen,
+                                       onOpenFolder,
+                                       onImportOra,
+                                       onImportProject,
+                                       onExportOra,
                                        onSave,
                                        onSaveAs,
                                        onNewProject,
                                        onQuickExportPNG,
                                        onQuickExportJPG,
                                        onBulkExport,
+                                       canUndo = false,
+                                       canRedo = false,
+                                       onUndo,
+                                       onRedo,
+                                       onOpenHistory,
                                      }: LayerToolbarProps) {
   const formatCanvasSize = (width?: number, height?: number) => {
     if (!width || !height) return "Unknown"
@@ -85,6 +121,20 @@ export default function LayerToolbar({
                 <FileOpen className="w-4 h-4 mr-2" />
                 Open Project
               </DropdownMenuItem>
+              {onOpenFolder && (
+                <DropdownMenuItem onClick={onOpenFolder}>
+                  <FolderOpen className="w-4 h-4 mr-2" />
+                  Open Project Folder...
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={onImportOra}>
+                <FileInput className="w-4 h-4 mr-2" />
+                Import OpenRaster...
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={onImportProject} disabled={!isProjectLoaded}>
+                <Combine className="w-4 h-4 mr-2" />
+                Import from Project...
+              </DropdownMenuItem>
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={onSave} disabled={!isProjectLoaded}>
                 <Save className="w-4 h-4 mr-2" />
@@ -94,6 +144,10 @@ export default function LayerToolbar({
                 <Save className="w-4 h-4 mr-2" />
                 Save As...
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={onExportOra} disabled={!isProjectLoaded}>
+                <FileOutput className="w-4 h-4 mr-2" />
+                Export OpenRaster...
+              </DropdownMenuItem>
               <DropdownMenuSeparator />
               <DropdownMenuSub>
                 <DropdownMenuSubTrigger disabled={!isProjectLoaded}>
@@ -119,6 +173,19 @@ export default function LayerToolbar({
             </DropdownMenuContent>
           </DropdownMenu>
 
+          {/* History */}
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={onOpenHistory} title="History">
+              <History className="w-4 h-4" />
+            </Button>
+          </div>
+
           {/* Project Status */}
           {isProjectLoaded && projectName && (
               <div className="text-xs text-gray-600 bg-blue-50 px-2 py-1 rounded border">
@@ -0,0 +1,216 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, Grid3x3, Plus, X } from "lucide-react"
+import { PresetMatrix, MAX_MATRIX_COMBINATIONS } from "@/utils/preset-matrix"
+import type { MatrixAxis } from "@/utils/preset-matrix"
+import type { LayerPreset, ExportItem } from "@/types/project"
+
+interface MatrixBuilderProps {
+  presets: LayerPreset[]
+  onAddItems: (items: ExportItem[]) => void
+}
+
+export default function MatrixBuilder({ presets, onAddItems }: MatrixBuilderProps) {
+  const [axes, setAxes] = useState<MatrixAxis[]>([
+    { id: "axis-1", name: "outfit", presetIds: [] },
+    { id: "axis-2", name: "expression", presetIds: [] },
+  ])
+  const [template, setTemplate] = useState("")
+  const [excludedKeys, setExcludedKeys] = useState<Set<string>>(new Set())
+  const [format, setFormat] = useState<"png" | "jpg">("png")
+  const [quality, setQuality] = useState(90)
+
+  // Presets deleted since they were picked drop out of the axes
+  const activeAxes = useMemo(
+      () => axes.map((axis) => ({ ...axis, presetIds: axis.presetIds.filter((id) => presets.some((p) => p.id === id)) })),
+      [axes, presets],
+  )
+  const effectiveTemplate = template.trim() || PresetMatrix.getDefaultTemplate(activeAxes)
+  const combinationCount = PresetMatrix.countCombinations(activeAxes)
+  const isTooLarge = combinationCount > MAX_MATRIX_COMBINATIONS
+
+  const combinations = useMemo(
+      () =>
+          isTooLarge
+              ? []
+              : PresetMatrix.getCombinations(activeAxes).map((combination) => ({
+                key: PresetMatrix.getKey(combination),
+                presetIds: combination,
+                name: PresetMatrix.formatName(effectiveTemplate, activeAxes, combination, presets),
+              })),
+      [activeAxes, effectiveTemplate, presets, isTooLarge],
+  )
+  const includedCombinations = combinations.filter((combination) => !excludedKeys.has(combination.key))
+
+  const updateAxis = (id: string, updates: Partial<MatrixAxis>) => {
+    setAxes((prev) => prev.map((axis) => (axis.id === id ? { ...axis, ...updates } : axis)))
+  }
+
+  const toggleAxisPreset = (axis: MatrixAxis, presetId: string) => {
+    const presetIds = axis.presetIds.includes(presetId)
+        ? axis.presetIds.filter((id) => id !== presetId)
+        : [...axis.presetIds, presetId]
+    updateAxis(axis.id, { presetIds })
+  }
+
+  const addAxis = () => {
+    setAxes((prev) => [...prev, { id: `axis-${Date.now()}`, name: `group${prev.length + 1}`, presetIds: [] }])
+  }
+
+  const toggleCombination = (key: string, included: boolean) => {
+    setExcludedKeys((prev) => {
+      const next = new Set(prev)
+      if (included) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const addToQueue = () => {
+    const batchId = Date.now()
+    onAddItems(
+        includedCombinations.map((combination, index) => ({
+          id: `export-matrix-${batchId}-${index}`,
+          name: combination.name,
+          preset: PresetMatrix.compose(combination.presetIds, combination.name, presets),
+          presetIds: combination.presetIds,
+          format,
+          quality,
+          enabled: true,
+        })),
+    )
+  }
+
+  if (presets.length === 0) {
+    return (
+        <div className="text-center py-8 text-gray-500">
+          <p>No presets to combine.</p>
+          <p className="text-sm">Create a preset for each outfit, expression, etc. first.</p>
+        </div>
+    )
+  }
+
+  return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium flex items-center gap-2">
+            <Grid3x3 className="w-4 h-4" />
+            Variant Matrix
+          </h4>
+          <Button variant="outline" size="sm" onClick={addAxis}>
+            <Plus className="w-3 h-3 mr-1" />
+            Add Axis
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {axes.map((axis) => (
+              <div key={axis.id} className="border rounded-md p-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                      value={axis.name}
+                      onChange={(e) => updateAxis(axis.id, { name: e.target.value })}
+                      placeholder="Axis name, used as {name} in the template"
+                      className="h-8 text-sm"
+                  />
+                  <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setAxes((prev) => prev.filter((a) => a.id !== axis.id))}
+                      className="text-red-500 hover:text-red-700"
+                      title="Remove axis"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {presets.map((preset) => (
+                      <Button
+                          key={preset.id}
+                          variant={axis.presetIds.includes(preset.id) ? "default" : "outline"}
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => toggleAxisPreset(axis, preset.id)}
+                      >
+                        {preset.name}
+                      </Button>
+                  ))}
+                </div>
+              </div>
+          ))}
+        </div>
+
+        <div>
+          <label className="text-sm font-medium">Name Template</label>
+          <Input
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              placeholder={PresetMatrix.getDefaultTemplate(activeAxes) || "{outfit}_{expression}"}
+          />
+          <div className="text-xs text-gray-500 mt-1">
+            Later axes win where their presets overlap. Placeholders:{" "}
+            {PresetMatrix.getActiveAxes(activeAxes)
+                .map((axis) => `{${axis.name.trim()}}`)
+                .join(" ") || "pick presets above"}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="text-sm font-medium">Format</label>
+            <Select value={format} onValueChange={(value: "png" | "jpg") => setFormat(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="png">PNG</SelectItem>
+                <SelectItem value="jpg">JPG</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {format === "jpg" && (
+              <div>
+                <label className="text-sm font-medium">Quality</label>
+                <Input type="number" min="1" max="100" value={quality} onChange={(e) => setQuality(Number(e.target.value))} />
+              </div>
+          )}
+        </div>
+
+        {isTooLarge ? (
+            <div className="flex items-center gap-2 text-sm text-amber-600">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {combinationCount} combinations; the matrix is limited to {MAX_MATRIX_COMBINATIONS}.
+            </div>
+        ) : (
+            combinations.length > 0 && (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">
+                    Combinations ({includedCombinations.length}/{combinations.length})
+                  </div>
+                  <div className="space-y-1 max-h-48 overflow-y-auto border rounded-md p-2">
+                    {combinations.map((combination) => (
+                        <label key={combination.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                              checked={!excludedKeys.has(combination.key)}
+                              onCheckedChange={(checked) => toggleCombination(combination.key, !!checked)}
+                          />
+                          <span className="truncate">{combination.name}</span>
+                        </label>
+                    ))}
+                  </div>
+                </div>
+            )
+        )}
+
+        <Button onClick={addToQueue} disabled={includedCombinations.length === 0} className="w-full">
+          Add {includedCombinations.length} Items to Bulk Queue
+        </Button>
+      </div>
+  )
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Folder } from "lucide-react"
+import { LayerTree } from "@/utils/layer-tree"
+import { PresetUtils } from "@/utils/preset-utils"
+import type { Layer, LayerFolder, LayerPreset } from "@/types/project"
+
+interface PresetEditorDialogProps {
+  preset: LayerPreset | null
+  layers: Layer[]
+  folders: LayerFolder[]
+  onSave: (preset: LayerPreset) => void
+  onClose: () => void
+}
+
+// Select values for a recorded state; "unchanged" removes the entry
+type RecordedState = "shown" | "hidden" | "unchanged"
+
+const toRecordedState = (state: boolean | undefined): RecordedState =>
+    state === undefined ? "unchanged" : state ? "shown" : "hidden"
+
+// Edits what a preset records without applying it to the canvas
+export default function PresetEditorDialog({ preset, layers, folders, onSave, onClose }: PresetEditorDialogProps) {
+  const [name, setName] = useState("")
+  const [layerStates, setLayerStates] = useState<Record<string, boolean>>({})
+  const [folderStates, setFolderStates] = useState<Record<string, boolean>>({})
+
+  useEffect(() => {
+    setName(preset?.name ?? "")
+    setLayerStates({ ...preset?.layer_states })
+    setFolderStates({ ...preset?.folder_states })
+  }, [preset])
+
+  const setRecordedState = (
+      setStates: (update: (prev: Record<string, boolean>) => Record<string, boolean>) => void,
+      id: string,
+      state: RecordedState,
+  ) => {
+    setStates((prev) => {
+      const next = { ...prev }
+      if (state === "unchanged") delete next[id]
+      else next[id] = state === "shown"
+      return next
+    })
+  }
+
+  const setAllLayers = (state: RecordedState) => {
+    const next: Record<string, boolean> = {}
+    if (state !== "unchanged") layers.forEach((layer) => (next[layer.id] = state === "shown"))
+    setLayerStates(next)
+  }
+
+  const save = () => {
+    if (!preset || !name.trim()) return
+
+    // A partial preset stops being one once every layer has a state
+    const edited: LayerPreset = {
+      ...preset,
+      name: name.trim(),
+      layer_states: layerStates,
+      folder_states: folderStates,
+      is_partial: PresetUtils.isPartial(preset, layers) && layers.some((layer) => layerStates[layer.id] === undefined),
+    }
+    console.log("Saving edited preset:", edited)
+    onSave(edited)
+  }
+
+  const summary = preset ? PresetUtils.getSummary({ ...preset, layer_states: layerStates }, layers) : ""
+
+  return (
+      <Dialog open={preset !== null} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Preset</DialogTitle>
+          </DialogHeader>
+
+          <div>
+            <label htmlFor="preset-editor-name" className="text-sm font-medium">
+              Preset Name
+            </label>
+            <Input id="preset-editor-name" value={name} onChange={(e) => setName(e.target.value)} className="mt-1" />
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>{summary}</span>
+            <div className="flex gap-1">
+              <Button variant="outline" size="sm" onClick={() => setAllLayers("shown")}>
+                Show All
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setAllLayers("hidden")}>
+                Hide All
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setAllLayers("unchanged")}>
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-1 max-h-96 overflow-y-auto border rounded-md p-2">
+            {LayerTree.getAllNodes(LayerTree.buildTree(layers, folders)).map((node) => {
+              const id = LayerTree.getNodeId(node)
+              const isFolder = node.type === "folder"
+              const state = toRecordedState(isFolder ? folderStates[id] : layerStates[id])
+              return (
+                  <div key={id} className="flex items-center gap-2 text-sm" style={{ paddingLeft: `${node.depth * 12}px` }}>
+                    {isFolder && <Folder className="w-3 h-3 text-gray-500 flex-shrink-0" />}
+                    <span className={`flex-1 truncate ${state === "unchanged" ? "text-gray-400" : ""}`}>
+                      {node.type === "folder" ? node.folder.name : node.layer.name}
+                    </span>
+                    <Select
+                        value={state}
+                        onValueChange={(value: RecordedState) => setRecordedState(isFolder ? setFolderStates : setLayerStates, id, value)}
+                    >
+                      <SelectTrigger className="w-32 h-7">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="shown">Shown</SelectItem>
+                        <SelectItem value="hidden">Hidden</SelectItem>
+                        <SelectItem value="unchanged">Unchanged</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+              )
+            })}
+          </div>
+
+          <div className="text-xs text-gray-500">
+            Unchanged layers are left as they are when the preset is applied. Recorded opacity, blend modes and masks are kept.
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={!name.trim()}>
+              Save Preset
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+  )
+}
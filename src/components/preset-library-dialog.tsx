@@ -0,0 +1,133 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, Folder } from "lucide-react"
+import type { PresetLibraryPreview } from "@/utils/tasks"
+import type { NodeMatch, PresetLibraryMapping } from "@/utils/preset-library"
+import type { Layer, LayerFolder } from "@/types/project"
+
+interface PresetLibraryDialogProps {
+  preview: PresetLibraryPreview | null
+  layers: Layer[]
+  folders: LayerFolder[]
+  onImport: (mapping: PresetLibraryMapping) => void
+  onCancel: () => void
+}
+
+// Select value for "don't map this entry"
+const SKIP = "__skip__"
+
+const METHOD_LABELS: Record<string, string> = {
+  id: "same id",
+  name: "same name",
+  path: "same folder path",
+  fuzzy: "similar name",
+  manual: "picked",
+}
+
+export default function PresetLibraryDialog({ preview, layers, folders, onImport, onCancel }: PresetLibraryDialogProps) {
+  const [matches, setMatches] = useState<NodeMatch[]>([])
+
+  useEffect(() => {
+    setMatches(preview?.matches ?? [])
+  }, [preview])
+
+  const setTarget = (index: number, targetId: string | null) => {
+    setMatches((prev) =>
+        prev.map((match, i) => (i === index ? { ...match, targetId, method: targetId ? "manual" : null } : match)),
+    )
+  }
+
+  // Entries that couldn't be matched come first. The order is fixed when the file
+  // is previewed so rows don't jump while they are being mapped.
+  const order = useMemo(
+      () =>
+          (preview?.matches ?? [])
+              .map((match, index) => ({ index, isMatched: match.targetId !== null }))
+              .sort((a, b) => Number(a.isMatched) - Number(b.isMatched))
+              .map((entry) => entry.index),
+      [preview],
+  )
+  const rows = order.filter((index) => matches[index]).map((index) => ({ match: matches[index], index }))
+  const unmatchedCount = matches.filter((match) => match.targetId === null).length
+
+  const sortedLayers = [...layers].sort((a, b) => b.zIndex - a.zIndex)
+
+  const confirm = () => {
+    onImport(Object.fromEntries(matches.map((match) => [match.node.id, match.targetId])))
+  }
+
+  return (
+      <Dialog open={preview !== null} onOpenChange={(open) => !open && onCancel()}>
+        <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import Presets from {preview?.fileName}</DialogTitle>
+          </DialogHeader>
+
+          <div className="text-sm text-gray-600">
+            {preview?.library.presets.length ?? 0} preset{preview?.library.presets.length === 1 ? "" : "s"}:{" "}
+            {preview?.library.presets.map((preset) => preset.name).join(", ")}
+          </div>
+
+          {unmatchedCount > 0 && (
+              <div className="flex items-center gap-2 text-sm text-amber-600">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {unmatchedCount} entr{unmatchedCount === 1 ? "y" : "ies"} could not be matched. Pick a layer or folder, or
+                leave them skipped.
+              </div>
+          )}
+
+          <div className="space-y-1 max-h-96 overflow-y-auto border rounded-md p-2">
+            {rows.length === 0 && <div className="text-center py-2 text-sm text-gray-400">The presets don&apos;t refer to any layers</div>}
+            {rows.map(({ match, index }) => (
+                <div key={`${match.kind}-${match.node.id}`} className="flex items-center gap-2 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-1 truncate">
+                      {match.kind === "folder" && <Folder className="w-3 h-3 text-gray-500 flex-shrink-0" />}
+                      <span className="truncate">{match.node.name}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {[...match.node.folder_path, match.node.name].join(" / ")}
+                      {match.method && ` · ${METHOD_LABELS[match.method]}`}
+                    </div>
+                  </div>
+                  <Select value={match.targetId ?? SKIP} onValueChange={(value) => setTarget(index, value === SKIP ? null : value)}>
+                    <SelectTrigger className={`w-56 ${match.targetId ? "" : "border-amber-400"}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP}>Skip</SelectItem>
+                      {match.kind === "folder"
+                          ? folders.map((folder) => (
+                              <SelectItem key={folder.id} value={folder.id}>
+                                {folder.name}
+                              </SelectItem>
+                          ))
+                          : sortedLayers.map((layer) => (
+                              <SelectItem key={layer.id} value={layer.id}>
+                                {layer.name}
+                              </SelectItem>
+                          ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+            ))}
+          </div>
+
+          <div className="text-xs text-gray-500">Skipped entries are left out, so those layers stay unchanged when a preset is applied.</div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={confirm} disabled={!preview || preview.library.presets.length === 0}>
+              Add {preview?.library.presets.length ?? 0} Presets
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+  )
+}
@@ -2,51 +2,92 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import Image from "next/image"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
-import { Save, FolderOpen, Trash2, GripVertical } from "lucide-react"
-import type { LayerPreset } from "@/types/project"
-
-interface Layer {
-  id: string
-  name: string
-  src: string
-  file_path: string
-  width: number
-  height: number
-  isVisible: boolean
-  zIndex: number
-}
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Save, FolderOpen, Folder, Trash2, GripVertical, Eye, EyeOff, AlertTriangle, Download, Upload, ClipboardCheck, MoreVertical, Pencil, Copy, RefreshCw, SlidersHorizontal, LayoutGrid, List } from "lucide-react"
+import { PresetUtils } from "@/utils/preset-utils"
+import type { PresetScope } from "@/utils/preset-utils"
+import { LayerTree } from "@/utils/layer-tree"
+import { ExclusiveGroups } from "@/utils/exclusive-groups"
+import PresetStacks from "./preset-stacks"
+import PresetEditorDialog from "./preset-editor-dialog"
+import type { Layer, LayerFolder, LayerPreset, PresetStack, ExclusiveGroup } from "@/types/project"
+
+// Which layers a new preset records: all of them, the ones changed since the
+// last preset was applied, or the ones ticked in the list
+type PresetSaveScope = "all" | "changed" | "picked"
 
 interface PresetManagerProps {
   layers: Layer[]
+  folders: LayerFolder[]
   presets: LayerPreset[]
-  setPresets: (presets: LayerPreset[]) => void
-  onApplyPreset: (layerStates: Record<string, boolean>) => void
+  baseline: LayerPreset | null // State right after the last applied preset
+  setPresets: React.Dispatch<React.SetStateAction<LayerPreset[]>>
+  onApplyPreset: (preset: LayerPreset) => void
+  presetStacks: PresetStack[]
+  setPresetStacks: React.Dispatch<React.SetStateAction<PresetStack[]>>
+  onApplyStack: (stack: PresetStack) => void
+  exclusiveGroups: ExclusiveGroup[]
+  onExportLibrary: () => void
+  onImportLibrary: () => void
+  onOpenReconcile: () => void
+  thumbnails: Record<string, string> // presetId -> PNG data URL
+  saveThumbnails: boolean
+  onSaveThumbnailsChange: (saveThumbnails: boolean) => void
+  onHoverPreset: (preset: LayerPreset | null) => void // Previews on the canvas; null when the pointer leaves
 }
 
-export default function PresetManager({ layers, presets, setPresets, onApplyPreset }: PresetManagerProps) {
+export default function PresetManager({
+  layers,
+  folders,
+  presets,
+  baseline,
+  setPresets,
+  onApplyPreset,
+  presetStacks,
+  setPresetStacks,
+  onApplyStack,
+  exclusiveGroups,
+  onExportLibrary,
+  onImportLibrary,
+  onOpenReconcile,
+  thumbnails,
+  saveThumbnails,
+  onSaveThumbnailsChange,
+  onHoverPreset,
+}: PresetManagerProps) {
   const [newPresetName, setNewPresetName] = useState("")
+  const [includeProperties, setIncludeProperties] = useState(false)
+  const [saveScope, setSaveScope] = useState<PresetSaveScope>("all")
+  const [pickedIds, setPickedIds] = useState<Set<string>>(new Set())
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [draggedPresetId, setDraggedPresetId] = useState<string | null>(null)
   const [dragOverPresetId, setDragOverPresetId] = useState<string | null>(null)
+  const [renamingPresetId, setRenamingPresetId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState("")
+  const [editingPreset, setEditingPreset] = useState<LayerPreset | null>(null)
+  const [isGridView, setIsGridView] = useState(false)
+
+  // Opening or reloading a project clears the baseline, so "changed" has nothing to compare against
+  useEffect(() => {
+    if (!baseline) setSaveScope((prev) => (prev === "changed" ? "all" : prev))
+  }, [baseline])
 
   const savePreset = () => {
     if (!newPresetName.trim()) return
 
-    const layerStates: Record<string, boolean> = {}
-    layers.forEach((layer) => {
-      layerStates[layer.id] = layer.isVisible
-    })
-
-    const newPreset: LayerPreset = {
-      id: `preset-${Date.now()}`,
-      name: newPresetName.trim(),
-      layer_states: layerStates,
-      created_at: new Date().toISOString(),
-    }
+    const newPreset = PresetUtils.capturePreset(newPresetName.trim(), layers, folders, includeProperties, getSaveScope())
 
     console.log("Saving new preset:", newPreset)
     setPresets([...presets, newPreset])
@@ -55,11 +96,8 @@ export default function PresetManager({ layers, presets, setPresets, onApplyPres
   }
 
   const applyPreset = (preset: LayerPreset) => {
-    console.log("Applying preset:", preset.name, preset.layer_states || preset.layerStates)
-
-    // Handle both layer_states and layerStates for compatibility
-    const layerStates = preset.layer_states || (preset as any).layerStates || {}
-    onApplyPreset(layerStates)
+    console.log("Applying preset:", preset.name, preset.layer_states, preset.folder_states)
+    onApplyPreset(preset)
   }
 
   const deletePreset = (presetId: string) => {
@@ -67,11 +105,77 @@ export default function PresetManager({ layers, presets, setPresets, onApplyPres
     setPresets(presets.filter((p) => p.id !== presetId))
   }
 
-  const getPresetSummary = (preset: LayerPreset) => {
-    console.log("Getting summary for preset:", preset.name, "layer_states:", preset.layer_states, "layerStates:", (preset as any).layerStates)
+  // Rename, duplicate, update and edit keep the preset's id, so stacks and
+  // export items still point at it
+  const replacePreset = (updated: LayerPreset) => {
+    setPresets((prev) => prev.map((preset) => (preset.id === updated.id ? updated : preset)))
+  }
+
+  const startRename = (preset: LayerPreset) => {
+    setRenamingPresetId(preset.id)
+    setRenameValue(preset.name)
+  }
+
+  const finishRename = () => {
+    const presetId = renamingPresetId
+    const name = renameValue.trim()
+    setRenamingPresetId(null)
+    if (!presetId || !name) return
+
+    console.log("Renaming preset:", presetId, "->", name)
+    setPresets((prev) =>
+        prev.some((preset) => preset.id === presetId && preset.name !== name)
+            ? prev.map((preset) => (preset.id === presetId ? { ...preset, name } : preset))
+            : prev,
+    )
+  }
 
-    // Handle both layer_states and layerStates for compatibility
-    const layerStates = preset.layer_states || (preset as any).layerStates
+  const duplicatePreset = (preset: LayerPreset) => {
+    console.log("Duplicating preset:", preset.name)
+    setPresets((prev) => {
+      const copy = PresetUtils.duplicatePreset(preset, `${preset.name} copy`, new Set(prev.map((p) => p.id)))
+      const index = prev.findIndex((p) => p.id === preset.id)
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)]
+    })
+  }
+
+  const updateFromCurrent = (preset: LayerPreset) => {
+    console.log("Updating preset from current state:", preset.name)
+    replacePreset(PresetUtils.recapturePreset(preset, layers, folders))
+  }
+
+  const saveEditedPreset = (preset: LayerPreset) => {
+    replacePreset(preset)
+    setEditingPreset(null)
+  }
+
+  const getSaveScope = (): PresetScope | undefined => {
+    if (saveScope === "changed" && baseline) {
+      return PresetUtils.getChangedScope(layers, folders, baseline, includeProperties)
+    }
+    if (saveScope === "picked") {
+      return {
+        layerIds: new Set(layers.filter((layer) => pickedIds.has(layer.id)).map((layer) => layer.id)),
+        folderIds: new Set(folders.filter((folder) => pickedIds.has(folder.id)).map((folder) => folder.id)),
+      }
+    }
+    return undefined
+  }
+
+  const scope = getSaveScope()
+  const scopeSize = scope ? scope.layerIds.size + scope.folderIds.size : layers.length + folders.length
+
+  const togglePicked = (id: string, checked: boolean) => {
+    setPickedIds((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  const getPresetSummary = (preset: LayerPreset) => {
+    const layerStates = preset.layer_states
 
     if (!layerStates || typeof layerStates !== 'object') {
       console.warn("Invalid layer states for preset:", preset.name, layerStates)
@@ -79,9 +183,7 @@ export default function PresetManager({ layers, presets, setPresets, onApplyPres
     }
 
     try {
-      const visibleCount = Object.values(layerStates).filter(Boolean).length
-      const totalCount = Object.keys(layerStates).length
-      return `${visibleCount}/${totalCount} visible`
+      return PresetUtils.getSummary(preset, layers)
     } catch (error) {
       console.error("Error generating preset summary:", error, preset)
       return "Error"
@@ -149,56 +251,162 @@ export default function PresetManager({ layers, presets, setPresets, onApplyPres
       <div className="p-3 border-t border-gray-200">
         <div className="flex items-center justify-between mb-3">
           <h3 className="text-sm font-medium text-gray-700">Layer Presets</h3>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button variant="outline" size="sm" title="Save Current Layer State" disabled={layers.length === 0}>
-                <Save className="w-3 h-3" />
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-md">
-              <DialogHeader>
-                <DialogTitle>Save Layer Preset</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div>
-                  <label htmlFor="preset-name" className="text-sm font-medium">
-                    Preset Name
+          <div className="flex gap-1">
+            <Button
+                variant="outline"
+                size="sm"
+                title={isGridView ? "Show as List" : "Show as Grid"}
+                onClick={() => {
+                  setIsGridView(!isGridView)
+                  onHoverPreset(null)
+                }}
+                disabled={presets.length === 0}
+            >
+              {isGridView ? <List className="w-3 h-3" /> : <LayoutGrid className="w-3 h-3" />}
+            </Button>
+            <Button variant="outline" size="sm" title="Check Presets" onClick={onOpenReconcile} disabled={presets.length === 0}>
+              <ClipboardCheck className="w-3 h-3" />
+            </Button>
+            <Button variant="outline" size="sm" title="Import Preset Library" onClick={onImportLibrary} disabled={layers.length === 0}>
+              <Upload className="w-3 h-3" />
+            </Button>
+            <Button variant="outline" size="sm" title="Export Preset Library" onClick={onExportLibrary} disabled={presets.length === 0}>
+              <Download className="w-3 h-3" />
+            </Button>
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm" title="Save Current Layer State" disabled={layers.length === 0}>
+                  <Save className="w-3 h-3" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                  <DialogTitle>Save Layer Preset</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="preset-name" className="text-sm font-medium">
+                      Preset Name
+                    </label>
+                    <Input
+                        id="preset-name"
+                        value={newPresetName}
+                        onChange={(e) => setNewPresetName(e.target.value)}
+                        placeholder="Enter preset name..."
+                        className="mt-1"
+                        onKeyDown={(e) => e.key === "Enter" && savePreset()}
+                    />
+                  </div>
+                  <div className="space-y-1 text-sm">
+                    <div className="font-medium">Layers to include</div>
+                    <label className="flex items-center gap-2">
+                      <input type="radio" checked={saveScope === "all"} onChange={() => setSaveScope("all")} />
+                      All layers
+                    </label>
+                    <label className={`flex items-center gap-2 ${baseline ? "" : "text-gray-400"}`}>
+                      <input
+                          type="radio"
+                          checked={saveScope === "changed"}
+                          onChange={() => setSaveScope("changed")}
+                          disabled={!baseline}
+                      />
+                      {baseline ? `Only layers changed since applying ${baseline.name}` : "Only changed layers (apply a preset first)"}
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input type="radio" checked={saveScope === "picked"} onChange={() => setSaveScope("picked")} />
+                      Pick layers
+                    </label>
+                    <div className="text-xs text-gray-500">Layers that aren&apos;t included are left unchanged when the preset is applied.</div>
+                  </div>
+                  {saveScope === "picked" && (
+                      <div className="space-y-1 max-h-48 overflow-y-auto border rounded-md p-2">
+                        {LayerTree.getAllNodes(LayerTree.buildTree(layers, folders)).map((node) => {
+                          const id = LayerTree.getNodeId(node)
+                          const isVisible = node.type === "folder" ? node.folder.isVisible : node.layer.isVisible
+                          return (
+                              <label
+                                  key={id}
+                                  className="flex items-center gap-2 text-sm cursor-pointer"
+                                  style={{ paddingLeft: `${node.depth * 12}px` }}
+                              >
+                                <Checkbox checked={pickedIds.has(id)} onCheckedChange={(checked) => togglePicked(id, !!checked)} />
+                                {node.type === "folder" && <Folder className="w-3 h-3 text-gray-500" />}
+                                <span className="flex-1 truncate">{node.type === "folder" ? node.folder.name : node.layer.name}</span>
+                                {isVisible ? <Eye className="w-3 h-3 text-gray-500" /> : <EyeOff className="w-3 h-3 text-gray-400" />}
+                              </label>
+                          )
+                        })}
+                      </div>
+                  )}
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={includeProperties} onCheckedChange={(checked) => setIncludeProperties(!!checked)} />
+                    Also capture opacity and blend modes
                   </label>
-                  <Input
-                      id="preset-name"
-                      value={newPresetName}
-                      onChange={(e) => setNewPresetName(e.target.value)}
-                      placeholder="Enter preset name..."
-                      className="mt-1"
-                      onKeyDown={(e) => e.key === "Enter" && savePreset()}
-                  />
-                </div>
-                <div className="text-xs text-gray-500">
-                  Current state: {layers.filter((l) => l.isVisible).length}/{layers.length} layers visible
-                </div>
-                <div className="flex justify-end gap-2">
-                  <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button onClick={savePreset} disabled={!newPresetName.trim()}>
-                    Save Preset
-                  </Button>
+                  <div className="text-xs text-gray-500">
+                    Current state: {layers.filter((l) => l.isVisible).length}/{layers.length} layers visible • {scopeSize} layer
+                    {scopeSize === 1 ? "" : "s"} and folder{scopeSize === 1 ? "" : "s"} will be recorded
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={savePreset} disabled={!newPresetName.trim() || scopeSize === 0}>
+                      Save Preset
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         {presets.length === 0 ? (
             <div className="text-xs text-gray-500 text-center py-4">
               {layers.length === 0 ? "Load a project to create presets" : "No presets saved yet"}
             </div>
+        ) : isGridView ? (
+            <div className="space-y-2">
+              <div className="grid grid-cols-3 gap-2 max-h-64 overflow-y-auto" onMouseLeave={() => onHoverPreset(null)}>
+                {presets.map((preset) => {
+                  const violations = ExclusiveGroups.getPresetViolations(exclusiveGroups, preset, layers, folders)
+                  return (
+                      <button
+                          key={preset.id}
+                          onClick={() => applyPreset(preset)}
+                          onMouseEnter={() => onHoverPreset(preset)}
+                          className="flex flex-col items-center gap-1 p-1 border rounded-md hover:bg-gray-50 hover:border-gray-400"
+                          title={[preset.name, getPresetSummary(preset), ...violations.map((violation) => violation.message)].join("\n")}
+                      >
+                        <div className="relative w-full aspect-square flex items-center justify-center bg-gray-100 rounded overflow-hidden">
+                          {thumbnails[preset.id] ? (
+                              <Image src={thumbnails[preset.id]} alt={preset.name} fill className="object-contain" unoptimized />
+                          ) : (
+                              <FolderOpen className="w-4 h-4 text-gray-300" />
+                          )}
+                          {violations.length > 0 && (
+                              <span className="absolute top-1 right-1 rounded-full bg-white p-0.5 shadow">
+                                <AlertTriangle className="w-3 h-3 text-amber-500" />
+                              </span>
+                          )}
+                        </div>
+                        <span className="w-full text-xs truncate">{preset.name}</span>
+                      </button>
+                  )
+                })}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                <Checkbox checked={saveThumbnails} onCheckedChange={(checked) => onSaveThumbnailsChange(!!checked)} />
+                Save thumbnails with the project
+              </label>
+            </div>
         ) : (
             <div className="space-y-2 max-h-40 overflow-y-auto">
-              {presets.map((preset) => (
+              {presets.map((preset) => {
+                const violations = ExclusiveGroups.getPresetViolations(exclusiveGroups, preset, layers, folders)
+                return (
                   <div
                       key={preset.id}
-                      draggable
+                      draggable={renamingPresetId !== preset.id}
                       onDragStart={(e) => handleDragStart(e, preset.id)}
                       onDragEnd={handleDragEnd}
                       onDragOver={(e) => handleDragOver(e, preset.id)}
@@ -212,34 +420,93 @@ export default function PresetManager({ layers, presets, setPresets, onApplyPres
                       <GripVertical className="w-4 h-4" />
                     </div>
 
-                    <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => applyPreset(preset)}
-                        className="flex-1 justify-start h-auto p-1"
-                        title="Apply this preset"
-                    >
-                      <div className="flex items-center gap-2 w-full">
-                        <FolderOpen className="w-3 h-3 text-gray-500" />
-                        <div className="flex-1 text-left">
-                          <div className="text-xs font-medium truncate">{preset.name}</div>
-                          <div className="text-xs text-gray-500">{getPresetSummary(preset)}</div>
-                        </div>
-                      </div>
-                    </Button>
-                    <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => deletePreset(preset.id)}
-                        className="p-1 h-auto text-red-500 hover:text-red-700"
-                        title="Delete preset"
-                    >
-                      <Trash2 className="w-3 h-3" />
-                    </Button>
+                    {renamingPresetId === preset.id ? (
+                        <Input
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onBlur={finishRename}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") finishRename()
+                              if (e.key === "Escape") setRenamingPresetId(null)
+                            }}
+                            className="flex-1 h-7 text-xs"
+                            autoFocus
+                        />
+                    ) : (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => applyPreset(preset)}
+                            className="flex-1 justify-start h-auto p-1"
+                            title="Apply this preset"
+                        >
+                          <div className="flex items-center gap-2 w-full">
+                            {thumbnails[preset.id] ? (
+                                <div className="relative w-8 h-8 flex-shrink-0 bg-gray-100 rounded overflow-hidden">
+                                  <Image src={thumbnails[preset.id]} alt="" fill className="object-contain" unoptimized />
+                                </div>
+                            ) : (
+                                <FolderOpen className="w-3 h-3 text-gray-500" />
+                            )}
+                            <div className="flex-1 text-left">
+                              <div className="text-xs font-medium truncate flex items-center gap-1">
+                                {preset.name}
+                                {violations.length > 0 && (
+                                    <span title={violations.map((violation) => violation.message).join("\n")}>
+                                      <AlertTriangle className="w-3 h-3 text-amber-500" />
+                                    </span>
+                                )}
+                              </div>
+                              <div className="text-xs text-gray-500">{getPresetSummary(preset)}</div>
+                            </div>
+                          </div>
+                        </Button>
+                    )}
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="p-1 h-auto" title="Preset actions">
+                          <MoreVertical className="w-3 h-3" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => startRename(preset)}>
+                          <Pencil className="w-4 h-4 mr-2" />
+                          Rename
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => duplicatePreset(preset)}>
+                          <Copy className="w-4 h-4 mr-2" />
+                          Duplicate
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => updateFromCurrent(preset)}>
+                          <RefreshCw className="w-4 h-4 mr-2" />
+                          Update from Current
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => setEditingPreset(preset)}>
+                          <SlidersHorizontal className="w-4 h-4 mr-2" />
+                          Edit Layers...
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => deletePreset(preset.id)} className="text-red-600">
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
-              ))}
+                )
+              })}
             </div>
         )}
+
+        <PresetStacks presets={presets} stacks={presetStacks} setStacks={setPresetStacks} onApplyStack={onApplyStack} />
+
+        <PresetEditorDialog
+            preset={editingPreset}
+            layers={layers}
+            folders={folders}
+            onSave={saveEditedPreset}
+            onClose={() => setEditingPreset(null)}
+        />
       </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Eye, EyeOff, Copy, Trash2, Check } from "lucide-react"
+import { PresetReconcile } from "@/utils/preset-reconcile"
+import type { PresetReport } from "@/utils/preset-reconcile"
+import type { Layer, LayerFolder, LayerPreset } from "@/types/project"
+
+interface PresetReconcileDialogProps {
+  isOpen: boolean
+  presets: LayerPreset[]
+  layers: Layer[]
+  folders: LayerFolder[]
+  onFix: (label: string, fix: (presets: LayerPreset[]) => LayerPreset[]) => void
+  onClose: () => void
+}
+
+export default function PresetReconcileDialog({ isOpen, presets, layers, folders, onFix, onClose }: PresetReconcileDialogProps) {
+  // Ticks the user changed by hand; cleared each time the dialog opens
+  const [selectionOverrides, setSelectionOverrides] = useState<Record<string, boolean>>({})
+  const [copySourceId, setCopySourceId] = useState("")
+
+  const reports = PresetReconcile.check(presets, layers, folders)
+  const layerNames = new Map(layers.map((layer) => [layer.id, layer.name]))
+
+  useEffect(() => {
+    if (isOpen) setSelectionOverrides({})
+  }, [isOpen])
+
+  const isSelected = (report: PresetReport) => selectionOverrides[report.presetId] ?? true
+  const selectedIds = new Set(reports.filter(isSelected).map((report) => report.presetId))
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectionOverrides((prev) => ({ ...prev, [id]: checked }))
+  }
+
+  // Fixes that change nothing return the same preset, so nothing is recorded
+  const fixSelected = (label: string, fix: (preset: LayerPreset) => LayerPreset) => {
+    onFix(label, (prev) => {
+      const next = prev.map((preset) => (selectedIds.has(preset.id) ? fix(preset) : preset))
+      return next.some((preset, index) => preset !== prev[index]) ? next : prev
+    })
+  }
+
+  const copySource = presets.find((preset) => preset.id === copySourceId)
+  const selectedCount = selectedIds.size
+
+  return (
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Check Presets</DialogTitle>
+          </DialogHeader>
+
+          {reports.length === 0 ? (
+              <div className="text-center py-6 text-sm text-gray-500">Every preset matches the current layers.</div>
+          ) : (
+              <>
+                <div className="text-xs text-gray-500">
+                  Orphaned ids belong to layers or folders that no longer exist. Uncovered layers are left as they are
+                  when the preset is applied, so the result depends on what was showing before. Partial presets leave
+                  layers out on purpose and are only checked for orphaned ids.
+                </div>
+
+                <div className="space-y-2 max-h-80 overflow-y-auto border rounded-md p-2">
+                  {reports.map((report) => {
+                    const orphanIds = [...report.orphanLayerIds, ...report.orphanFolderIds]
+                    return (
+                        <label key={report.presetId} className="flex items-start gap-2 text-sm cursor-pointer">
+                          <Checkbox
+                              checked={isSelected(report)}
+                              onCheckedChange={(checked) => toggleSelected(report.presetId, !!checked)}
+                              className="mt-0.5"
+                          />
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium truncate">
+                              {report.presetName}
+                              {report.isPartial && <span className="ml-2 text-xs font-normal text-gray-400">partial</span>}
+                            </div>
+                            {orphanIds.length > 0 && (
+                                <div className="text-xs text-red-600 truncate" title={orphanIds.join(", ")}>
+                                  {orphanIds.length} orphaned id{orphanIds.length === 1 ? "" : "s"}: {orphanIds.join(", ")}
+                                </div>
+                            )}
+                            {report.uncoveredLayerIds.length > 0 && (
+                                <div
+                                    className="text-xs text-amber-600 truncate"
+                                    title={report.uncoveredLayerIds.map((id) => layerNames.get(id)).join(", ")}
+                                >
+                                  {report.uncoveredLayerIds.length} uncovered layer{report.uncoveredLayerIds.length === 1 ? "" : "s"}:{" "}
+                                  {report.uncoveredLayerIds.map((id) => layerNames.get(id)).join(", ")}
+                                </div>
+                            )}
+                          </div>
+                        </label>
+                    )
+                  })}
+                </div>
+
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Fix {selectedCount} selected preset{selectedCount === 1 ? "" : "s"}</div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={selectedCount === 0}
+                        onClick={() => fixSelected("Drop orphaned preset entries", (preset) => PresetReconcile.dropOrphans(preset, layers, folders))}
+                    >
+                      <Trash2 className="w-3 h-3 mr-1" />
+                      Drop Orphans
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={selectedCount === 0}
+                        onClick={() => fixSelected("Hide uncovered layers in presets", (preset) => PresetReconcile.coverLayers(preset, layers, false))}
+                    >
+                      <EyeOff className="w-3 h-3 mr-1" />
+                      Hide Uncovered
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={selectedCount === 0}
+                        onClick={() => fixSelected("Show uncovered layers in presets", (preset) => PresetReconcile.coverLayers(preset, layers, true))}
+                    >
+                      <Eye className="w-3 h-3 mr-1" />
+                      Show Uncovered
+                    </Button>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={selectedCount === 0}
+                        onClick={() => fixSelected("Keep presets as partial", (preset) => PresetReconcile.keepPartial(preset, layers))}
+                        title="Leave the uncovered layers unchanged when these presets are applied"
+                    >
+                      <Check className="w-3 h-3 mr-1" />
+                      Keep as Partial
+                    </Button>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Select value={copySourceId} onValueChange={setCopySourceId}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Copy uncovered layers from preset..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {presets.map((preset) => (
+                            <SelectItem key={preset.id} value={preset.id}>
+                              {preset.name}
+                            </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={selectedCount === 0 || !copySource}
+                        onClick={() =>
+                            copySource &&
+                            fixSelected(`Copy layer states from ${copySource.name}`, (preset) =>
+                                PresetReconcile.copyUncovered(preset, copySource, layers),
+                            )
+                        }
+                    >
+                      <Copy className="w-3 h-3 mr-1" />
+                      Copy
+                    </Button>
+                  </div>
+                </div>
+              </>
+          )}
+
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+  )
+}
@@ -0,0 +1,211 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ArrowDown, ArrowUp, Layers, Pencil, Plus, Trash2, X } from "lucide-react"
+import type { LayerPreset, PresetStack } from "@/types/project"
+
+interface PresetStacksProps {
+  presets: LayerPreset[]
+  stacks: PresetStack[]
+  setStacks: React.Dispatch<React.SetStateAction<PresetStack[]>>
+  onApplyStack: (stack: PresetStack) => void
+}
+
+export default function PresetStacks({ presets, stacks, setStacks, onApplyStack }: PresetStacksProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingStackId, setEditingStackId] = useState<string | null>(null)
+  const [stackName, setStackName] = useState("")
+  const [stackPresetIds, setStackPresetIds] = useState<string[]>([])
+
+  const presetById = new Map(presets.map((preset) => [preset.id, preset]))
+
+  const openDialog = (stack?: PresetStack) => {
+    setEditingStackId(stack?.id ?? null)
+    setStackName(stack?.name ?? "")
+    setStackPresetIds(stack?.preset_ids.filter((id) => presetById.has(id)) ?? [])
+    setIsDialogOpen(true)
+  }
+
+  const saveStack = () => {
+    if (!stackName.trim() || stackPresetIds.length === 0) return
+
+    if (editingStackId) {
+      setStacks((prev) =>
+          prev.map((stack) =>
+              stack.id === editingStackId ? { ...stack, name: stackName.trim(), preset_ids: stackPresetIds } : stack,
+          ),
+      )
+    } else {
+      const newStack: PresetStack = {
+        id: `stack-${Date.now()}`,
+        name: stackName.trim(),
+        preset_ids: stackPresetIds,
+        created_at: new Date().toISOString(),
+      }
+      console.log("Saving new preset stack:", newStack)
+      setStacks((prev) => [...prev, newStack])
+    }
+    setIsDialogOpen(false)
+  }
+
+  const moveStackPreset = (index: number, offset: number) => {
+    setStackPresetIds((prev) => {
+      const target = index + offset
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const getStackSummary = (stack: PresetStack) => {
+    const names = stack.preset_ids.map((id) => presetById.get(id)?.name).filter(Boolean)
+    return names.length > 0 ? names.join(" → ") : "Empty stack"
+  }
+
+  return (
+      <div className="mt-3">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-xs font-medium text-gray-600">Preset Stacks</h4>
+          <Button
+              variant="outline"
+              size="sm"
+              title="Combine presets into a stack"
+              onClick={() => openDialog()}
+              disabled={presets.length === 0}
+          >
+            <Plus className="w-3 h-3" />
+          </Button>
+        </div>
+
+        {stacks.length === 0 ? (
+            <div className="text-xs text-gray-500 text-center py-2">
+              Stacks apply several presets in order, later ones winning
+            </div>
+        ) : (
+            <div className="space-y-2 max-h-32 overflow-y-auto">
+              {stacks.map((stack) => (
+                  <div key={stack.id} className="flex items-center gap-1 p-2 border rounded-md hover:bg-gray-50">
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onApplyStack(stack)}
+                        className="flex-1 justify-start h-auto p-1"
+                        title="Apply this stack"
+                    >
+                      <div className="flex items-center gap-2 w-full min-w-0">
+                        <Layers className="w-3 h-3 text-gray-500 flex-shrink-0" />
+                        <div className="flex-1 text-left min-w-0">
+                          <div className="text-xs font-medium truncate">{stack.name}</div>
+                          <div className="text-xs text-gray-500 truncate">{getStackSummary(stack)}</div>
+                        </div>
+                      </div>
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(stack)} className="p-1 h-auto" title="Edit stack">
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setStacks((prev) => prev.filter((s) => s.id !== stack.id))}
+                        className="p-1 h-auto text-red-500 hover:text-red-700"
+                        title="Delete stack"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+              ))}
+            </div>
+        )}
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>{editingStackId ? "Edit Preset Stack" : "New Preset Stack"}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="stack-name" className="text-sm font-medium">
+                  Stack Name
+                </label>
+                <Input
+                    id="stack-name"
+                    value={stackName}
+                    onChange={(e) => setStackName(e.target.value)}
+                    placeholder="e.g. Summer outfit, smiling"
+                    className="mt-1"
+                />
+              </div>
+
+              <div className="space-y-1">
+                <div className="text-sm font-medium">Applied in this order (later presets win)</div>
+                <div className="space-y-1 border rounded-md p-2 min-h-10">
+                  {stackPresetIds.length === 0 && <div className="text-xs text-gray-400">Add presets below</div>}
+                  {stackPresetIds.map((presetId, index) => (
+                      <div key={presetId} className="flex items-center gap-1 text-sm">
+                        <span className="w-5 text-xs text-gray-400">{index + 1}.</span>
+                        <span className="flex-1 truncate">{presetById.get(presetId)?.name}</span>
+                        <Button variant="ghost" size="sm" className="p-1 h-auto" onClick={() => moveStackPreset(index, -1)} disabled={index === 0}>
+                          <ArrowUp className="w-3 h-3" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="p-1 h-auto"
+                            onClick={() => moveStackPreset(index, 1)}
+                            disabled={index === stackPresetIds.length - 1}
+                        >
+                          <ArrowDown className="w-3 h-3" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="p-1 h-auto"
+                            onClick={() => setStackPresetIds((prev) => prev.filter((id) => id !== presetId))}
+                        >
+                          <X className="w-3 h-3" />
+                        </Button>
+                      </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <div className="text-sm font-medium">Presets</div>
+                <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+                  {presets
+                      .filter((preset) => !stackPresetIds.includes(preset.id))
+                      .map((preset) => (
+                          <Button
+                              key={preset.id}
+                              variant="outline"
+                              size="sm"
+                              className="h-7 text-xs"
+                              onClick={() => setStackPresetIds((prev) => [...prev, preset.id])}
+                          >
+                            <Plus className="w-3 h-3 mr-1" />
+                            {preset.name}
+                          </Button>
+                      ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={saveStack} disabled={!stackName.trim() || stackPresetIds.length === 0}>
+                  Save Stack
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+  )
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertCircle, AlertTriangle } from "lucide-react"
+import type { ProjectDiagnostic } from "@/types/diagnostics"
+
+interface ProblemsDialogProps {
+  isOpen: boolean
+  fileName: string
+  diagnostics: ProjectDiagnostic[]
+  onOpenAnyway: () => void
+  onCancel: () => void
+}
+
+export default function ProblemsDialog({ isOpen, fileName, diagnostics, onOpenAnyway, onCancel }: ProblemsDialogProps) {
+  const errors = diagnostics.filter((d) => d.severity === "error")
+  const warnings = diagnostics.filter((d) => d.severity === "warning")
+
+  const getLocation = (diagnostic: ProjectDiagnostic) => {
+    const parts: string[] = []
+    if (diagnostic.layerIndex !== undefined) {
+      parts.push(`Layer ${diagnostic.layerIndex + 1}${diagnostic.layerId ? ` (${diagnostic.layerId})` : ""}`)
+    } else if (diagnostic.layerId) {
+      parts.push(`Layer ${diagnostic.layerId}`)
+    }
+    if (diagnostic.presetId) {
+      parts.push(`Preset ${diagnostic.presetId}`)
+    }
+    if (diagnostic.field) {
+      parts.push(diagnostic.field)
+    }
+    return parts.join(" • ")
+  }
+
+  return (
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+        <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Problems</DialogTitle>
+          </DialogHeader>
+
+          <div className="text-sm text-gray-600">
+            {fileName}: {errors.length} error{errors.length === 1 ? "" : "s"}, {warnings.length} warning
+            {warnings.length === 1 ? "" : "s"}
+          </div>
+
+          <div className="space-y-1 max-h-80 overflow-y-auto border rounded-md p-2">
+            {[...errors, ...warnings].map((diagnostic, index) => (
+                <div key={index} className="flex items-start gap-2 p-1 text-sm">
+                  {diagnostic.severity === "error" ? (
+                      <AlertCircle className="w-4 h-4 mt-0.5 text-red-500 flex-shrink-0" />
+                  ) : (
+                      <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-500 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div>{diagnostic.message}</div>
+                    {getLocation(diagnostic) && <div className="text-xs text-gray-500">{getLocation(diagnostic)}</div>}
+                  </div>
+                </div>
+            ))}
+          </div>
+
+          {errors.length > 0 && (
+              <div className="text-xs text-red-600">This project can&apos;t be opened until the errors above are fixed.</div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              {errors.length > 0 ? "Close" : "Cancel"}
+            </Button>
+            {errors.length === 0 && <Button onClick={onOpenAnyway}>Open Anyway</Button>}
+          </div>
+        </DialogContent>
+      </Dialog>
+  )
+}
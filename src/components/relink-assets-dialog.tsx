@@ -0,0 +1,79 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertCircle, AlertTriangle, FileImage, FolderSearch } from "lucide-react"
+import { AssetStatusChecker } from "@/utils/asset-status"
+import type { Layer } from "@/types/project"
+
+interface RelinkAssetsDialogProps {
+  isOpen: boolean
+  layers: Layer[]
+  onRelinkFolder: (layerIds: string[]) => void
+  onRelinkFile: (layerId: string) => void
+  onClose: () => void
+}
+
+export default function RelinkAssetsDialog({ isOpen, layers, onRelinkFolder, onRelinkFile, onClose }: RelinkAssetsDialogProps) {
+  const problemLayers = layers.filter((layer) => AssetStatusChecker.isProblem(layer.assetStatus))
+
+  return (
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Relink Missing Assets</DialogTitle>
+          </DialogHeader>
+
+          <div className="flex items-center justify-between gap-2 text-sm text-gray-600">
+            <span>
+              {problemLayers.length === 0
+                  ? "All layer images loaded correctly."
+                  : `${problemLayers.length} layer${problemLayers.length === 1 ? "" : "s"} need attention. New paths are written to the project on save.`}
+            </span>
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRelinkFolder(problemLayers.map((layer) => layer.id))}
+                disabled={problemLayers.length === 0}
+                title="Search a folder for files with the same names"
+            >
+              <FolderSearch className="w-4 h-4 mr-1" />
+              Search Folder...
+            </Button>
+          </div>
+
+          <div className="space-y-1 max-h-80 overflow-y-auto border rounded-md p-2">
+            {problemLayers.length === 0 ? (
+                <div className="text-center py-4 text-sm text-gray-400">Nothing to relink</div>
+            ) : (
+                problemLayers.map((layer) => (
+                    <div key={layer.id} className="flex items-center gap-2 p-1 text-sm">
+                      {layer.assetStatus === "size-mismatch" ? (
+                          <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0" />
+                      ) : (
+                          <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate">{layer.name}</div>
+                        <div className="text-xs text-gray-500 truncate">
+                          {AssetStatusChecker.getLabel(layer.assetStatus)} • {layer.file_path || "no file path"}
+                        </div>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => onRelinkFile(layer.id)}>
+                        <FileImage className="w-4 h-4 mr-1" />
+                        Choose File...
+                      </Button>
+                    </div>
+                ))
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Info, X } from "lucide-react"
+
+export interface ToastMessage {
+  id: number
+  title: string
+  lines: string[]
+}
+
+interface ToastProps {
+  message: ToastMessage | null
+  duration?: number // ms before it hides itself
+  onDismiss: () => void
+}
+
+export default function Toast({ message, duration = 6000, onDismiss }: ToastProps) {
+  useEffect(() => {
+    if (!message) return
+    const timer = setTimeout(onDismiss, duration)
+    return () => clearTimeout(timer)
+  }, [message, duration, onDismiss])
+
+  if (!message) {
+    return null
+  }
+
+  return (
+      <div className="fixed bottom-4 right-4 z-50 w-80 rounded-md border bg-white shadow-lg p-3" role="status">
+        <div className="flex items-start gap-2">
+          <Info className="w-4 h-4 mt-0.5 text-blue-500 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-medium">{message.title}</div>
+            {message.lines.map((line) => (
+                <div key={line} className="text-xs text-gray-600 truncate" title={line}>
+                  {line}
+                </div>
+            ))}
+          </div>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onDismiss}>
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+  )
+}
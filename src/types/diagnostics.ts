@@ -0,0 +1,12 @@
+export type DiagnosticSeverity = "error" | "warning"
+
+// A single problem found while loading a project. Errors block opening,
+// warnings can be acknowledged and the project opened anyway.
+export interface ProjectDiagnostic {
+  severity: DiagnosticSeverity
+  message: string
+  field?: string
+  layerId?: string
+  layerIndex?: number
+  presetId?: string
+}
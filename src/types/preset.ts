@@ -1,6 +0,0 @@
-export interface LayerPreset {
-  id: string
-  name: string
-  layerStates: Record<string, boolean> // layerId -> isVisible
-  createdAt: Date
-}
@@ -1,3 +1,31 @@
+import type { ProjectDiagnostic } from "./diagnostics"
+
+// How a layer image is placed on the canvas:
+// - absolute: drawn at its x/y offset in document coordinates, at its own size
+// - fit: scaled to fit the canvas and centered (layers from files without offsets)
+// - stretch: scaled to cover the whole canvas
+export type LayerPlacement = "absolute" | "fit" | "stretch"
+
+// Layer blend modes; "add" is CSP's Add (glow), composited as canvas "lighter"
+export type BlendMode =
+    | "normal"
+    | "multiply"
+    | "screen"
+    | "overlay"
+    | "add"
+    | "darken"
+    | "lighten"
+    | "color-dodge"
+    | "color-burn"
+    | "hard-light"
+    | "soft-light"
+    | "difference"
+    | "exclusion"
+    | "hue"
+    | "saturation"
+    | "color"
+    | "luminosity"
+
 export interface ProjectLayer {
   id: string
   name: string
@@ -6,27 +34,149 @@ export interface ProjectLayer {
   height: number
   is_visible: boolean
   z_index: number
+  parent_id?: string | null // Folder containing this layer, null/absent for top level
+  x?: number
+  y?: number
+  placement?: LayerPlacement
+  opacity?: number // 0..1
+  blend_mode?: BlendMode
+  clipping?: boolean // Clip to the nearest non-clipping layer below in the same folder
+  mask_path?: string | null // Grayscale mask image, same size as the layer (white = opaque)
+  mask_enabled?: boolean
+}
+
+// Layer folder as organised in the Clip Studio file. Folders only group layers;
+// stacking order comes from the z_index of the layers inside them.
+export interface ProjectFolder {
+  id: string
+  name: string
+  parent_id?: string | null
+  is_visible: boolean
+  is_expanded?: boolean
+}
+
+export interface LayerPresetProperties {
+  opacity?: number
+  blend_mode?: BlendMode
 }
 
 export interface LayerPreset {
   id: string
   name: string
-  layer_states: Record<string, boolean>
+  layer_states: Record<string, boolean> // layerId -> isVisible; layers not listed are left unchanged
+  folder_states?: Record<string, boolean> // folderId -> isVisible
+  layer_properties?: Record<string, LayerPresetProperties> // layerId -> optional captured appearance
+  mask_states?: Record<string, boolean> // layerId -> mask enabled, for layers with a mask
+  is_partial?: boolean // Records only some layers on purpose; set when the preset is saved or edited
   created_at: string
 }
 
+// Presets applied one after another, later ones winning, e.g. hair + outfit + expression
+export interface PresetStack {
+  id: string
+  name: string
+  preset_ids: string[]
+  created_at: string
+}
+
+// "Pick one" set, e.g. mouths: showing one member hides the others. Either the
+// direct children of a folder or an explicit list of layers.
+export interface ExclusiveGroup {
+  id: string
+  name: string
+  folder_id: string | null
+  layer_ids: string[] // Used when folder_id is null
+  allow_none: boolean // Whether every member may be hidden at once
+}
+
+// - requires: the source may only be visible while the target is
+// - excludes: the source and target may not both be visible
+// - implies: while the source is visible the target is shown or hidden (target_visible)
+export type LayerRuleKind = "requires" | "excludes" | "implies"
+
+// Dependency between two layers or folders, e.g. "glasses_glint requires glasses"
+export interface LayerRule {
+  id: string
+  kind: LayerRuleKind
+  source_id: string
+  target_id: string
+  target_visible: boolean // Only used by implies
+}
+
+// A layer or folder that library presets refer to, described well enough to be
+// found again in a project where the ids are different
+export interface PresetLibraryNode {
+  id: string
+  name: string
+  folder_path: string[] // Names of the enclosing folders, outermost first
+}
+
+// Standalone preset file that can be imported into other projects
+export interface PresetLibraryFile {
+  format: "csplm-preset-library"
+  version: string
+  layers: PresetLibraryNode[]
+  folders: PresetLibraryNode[]
+  presets: LayerPreset[]
+}
+
 export interface ProjectCanvas {
   width: number
   height: number
 }
 
+export interface ProjectExportItem {
+  id: string
+  name: string
+  preset_id?: string // One of preset_id, stack_id or preset_ids
+  stack_id?: string
+  preset_ids?: string[] // Variant matrix combination, composed in order
+  format: "png" | "jpg"
+  quality: number
+  enabled: boolean
+}
+
+export interface ProjectView {
+  zoom: number
+  pan_x: number
+  pan_y: number
+}
+
+// Working session saved alongside the document so a reopened project looks the same
+export interface ProjectSession {
+  selected_layer_id: string | null
+  view: ProjectView
+  export_queue: ProjectExportItem[]
+}
+
 export interface ProjectFile {
   version: string
   canvas: ProjectCanvas
   layers: ProjectLayer[]
+  folders: ProjectFolder[]
   presets: LayerPreset[]
+  preset_stacks: PresetStack[]
+  exclusive_groups: ExclusiveGroup[]
+  layer_rules: LayerRule[]
+  preset_thumbnails?: Record<string, string> // presetId -> PNG data URL, only when the user chose to save them
+  session?: ProjectSession
+}
+
+// A project built in memory from another file format. Layer images (and masks)
+// live in `assets`, keyed by the file_path / mask_path the project refers to,
+// until the project is saved next to them.
+export interface ImportedProject {
+  project: ProjectFile
+  assets: Map<string, Blob>
+  diagnostics: ProjectDiagnostic[]
 }
 
+// Result of loading a layer's image:
+// - missing: no file could be found for file_path (a placeholder is shown)
+// - decode-failed: the file exists but isn't a readable image
+// - size-mismatch: the image decoded but isn't width x height
+export type AssetStatus = "ok" | "missing" | "decode-failed" | "size-mismatch"
+
 // Runtime layer interface (with converted src for web display)
 export interface Layer {
   id: string
@@ -37,4 +187,46 @@ export interface Layer {
   height: number
   isVisible: boolean
   zIndex: number
+  parentId?: string | null
+  x: number
+  y: number
+  placement: LayerPlacement
+  opacity: number
+  blendMode: BlendMode
+  clipping: boolean
+  maskSrc: string | null // Converted from mask_path, null when the layer has no usable mask
+  mask_path: string | null // Original mask path
+  maskEnabled: boolean
+  assetStatus: AssetStatus
+}
+
+// Runtime layer folder
+export interface LayerFolder {
+  id: string
+  name: string
+  parentId: string | null
+  isVisible: boolean
+  isExpanded: boolean
+}
+
+// Runtime bulk export queue entry (preset resolved from preset_id, or composed
+// from the stack or matrix combination for those entries)
+export interface ExportItem {
+  id: string
+  name: string
+  preset: LayerPreset
+  stackId?: string
+  presetIds?: string[]
+  format: "png" | "jpg"
+  quality: number
+  enabled: boolean
+}
+
+// Runtime session state restored on open
+export interface SessionState {
+  selectedLayerId: string | null
+  zoom: number
+  panX: number
+  panY: number
+  exportItems: ExportItem[]
 }
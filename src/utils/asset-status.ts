@@ -0,0 +1,59 @@
+import type { AssetStatus, Layer } from "@/types/project"
+import { Compositor } from "./compositor"
+import { ProjectLoader } from "./project-loader"
+
+const STATUS_LABELS: Record<AssetStatus, string> = {
+  ok: "OK",
+  missing: "Missing file",
+  "decode-failed": "Failed to decode",
+  "size-mismatch": "Size mismatch",
+}
+
+export class AssetStatusChecker {
+  static isProblem(status: AssetStatus): boolean {
+    return status !== "ok"
+  }
+
+  static getLabel(status: AssetStatus): string {
+    return STATUS_LABELS[status]
+  }
+
+  // Loads the layer's image (through the compositor cache, so the canvas reuses it)
+  // and compares it with what the project says it should be
+  static async check(layer: Layer): Promise<AssetStatus> {
+    if (!layer.file_path || ProjectLoader.isPlaceholderSrc(layer.src)) {
+      return "missing"
+    }
+
+    const image = await Compositor.loadImage(layer.src)
+    if (!image) {
+      return (await this.exists(layer.src)) ? "decode-failed" : "missing"
+    }
+
+    if (image.naturalWidth !== layer.width || image.naturalHeight !== layer.height) {
+      console.warn(
+          `⚠️ ${layer.name}: image is ${image.naturalWidth}x${image.naturalHeight}, expected ${layer.width}x${layer.height}`,
+      )
+      return "size-mismatch"
+    }
+
+    return "ok"
+  }
+
+  static async checkLayers(layers: Layer[]): Promise<Layer[]> {
+    const statuses = await Promise.all(layers.map((layer) => this.check(layer)))
+    const problems = statuses.filter((status) => this.isProblem(status)).length
+    console.log("🔍 Checked layer assets:", { layers: layers.length, problems })
+    return layers.map((layer, index) => ({ ...layer, assetStatus: statuses[index] }))
+  }
+
+  // Tells a missing file from one that exists but can't be decoded
+  private static async exists(src: string): Promise<boolean> {
+    try {
+      const response = await fetch(src)
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+}
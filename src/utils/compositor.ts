@@ -0,0 +1,261 @@
+import type { Layer, BlendMode } from "@/types/project"
+import { LayerTree } from "./layer-tree"
+
+// Canvas composite operation for each blend mode
+export const BLEND_MODE_OPERATIONS: Record<BlendMode, GlobalCompositeOperation> = {
+  normal: "source-over",
+  multiply: "multiply",
+  screen: "screen",
+  overlay: "overlay",
+  add: "lighter",
+  darken: "darken",
+  lighten: "lighten",
+  "color-dodge": "color-dodge",
+  "color-burn": "color-burn",
+  "hard-light": "hard-light",
+  "soft-light": "soft-light",
+  difference: "difference",
+  exclusion: "exclusion",
+  hue: "hue",
+  saturation: "saturation",
+  color: "color",
+  luminosity: "luminosity",
+}
+
+export const BLEND_MODES = Object.keys(BLEND_MODE_OPERATIONS) as BlendMode[]
+
+export interface LayerRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// A layer's decoded image plus its mask, converted to an alpha-only canvas
+export interface LoadedLayerImage {
+  image: HTMLImageElement | null
+  mask: HTMLCanvasElement | null
+}
+
+export interface CompositeOptions {
+  background?: string // Fill color drawn under the layers (e.g. white for JPG)
+}
+
+// Single source of truth for drawing layers, shared by the on-screen canvas and
+// every export path so they produce identical pixels
+export class Compositor {
+  private static imageCache = new Map<string, Promise<HTMLImageElement | null>>()
+  private static maskCache = new Map<string, Promise<HTMLCanvasElement | null>>()
+
+  static loadImage(src: string): Promise<HTMLImageElement | null> {
+    const cached = this.imageCache.get(src)
+    if (cached) {
+      return cached
+    }
+
+    const promise = new Promise<HTMLImageElement | null>((resolve) => {
+      const img = new Image()
+      img.crossOrigin = "anonymous"
+      img.onload = () => resolve(img)
+      img.onerror = (error) => {
+        console.error(`❌ Failed to load image: ${src}`, error)
+        this.imageCache.delete(src)
+        resolve(null)
+      }
+      img.src = src
+    })
+
+    this.imageCache.set(src, promise)
+    return promise
+  }
+
+  // Loads a grayscale mask and turns its luminance into alpha, so it can be
+  // applied with "destination-in"
+  static loadMask(src: string): Promise<HTMLCanvasElement | null> {
+    const cached = this.maskCache.get(src)
+    if (cached) {
+      return cached
+    }
+
+    const promise = this.loadImage(src).then((img) => {
+      if (!img) {
+        this.maskCache.delete(src)
+        return null
+      }
+
+      try {
+        const canvas = document.createElement("canvas")
+        canvas.width = img.naturalWidth
+        canvas.height = img.naturalHeight
+        const ctx = canvas.getContext("2d")
+        if (!ctx) {
+          return null
+        }
+
+        ctx.drawImage(img, 0, 0)
+        const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height)
+        const data = pixels.data
+        for (let i = 0; i < data.length; i += 4) {
+          const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+          data[i] = 0
+          data[i + 1] = 0
+          data[i + 2] = 0
+          data[i + 3] = Math.round((luminance * data[i + 3]) / 255)
+        }
+        ctx.putImageData(pixels, 0, 0)
+        return canvas
+      } catch (error) {
+        console.error(`❌ Failed to read mask: ${src}`, error)
+        this.maskCache.delete(src)
+        return null
+      }
+    })
+
+    this.maskCache.set(src, promise)
+    return promise
+  }
+
+  static loadLayerImages(layers: Layer[]): Promise<Map<string, LoadedLayerImage>> {
+    return Promise.all(
+        layers.map(async (layer) => {
+          const [image, mask] = await Promise.all([
+            this.loadImage(layer.src),
+            layer.maskSrc && layer.maskEnabled ? this.loadMask(layer.maskSrc) : Promise.resolve(null),
+          ])
+          return [layer.id, { image, mask }] as const
+        }),
+    ).then((entries) => new Map(entries))
+  }
+
+  // Where a layer lands in document coordinates
+  static getLayerRect(layer: Layer, canvasWidth: number, canvasHeight: number): LayerRect {
+    switch (layer.placement) {
+      case "stretch":
+        return { x: 0, y: 0, width: canvasWidth, height: canvasHeight }
+      case "fit": {
+        const scale = Math.min(canvasWidth / layer.width, canvasHeight / layer.height)
+        const width = layer.width * scale
+        const height = layer.height * scale
+        return { x: (canvasWidth - width) / 2, y: (canvasHeight - height) / 2, width, height }
+      }
+      default:
+        return { x: layer.x, y: layer.y, width: layer.width, height: layer.height }
+    }
+  }
+
+  // Draws already-loaded layer images bottom to top
+  static drawLayers(
+      ctx: CanvasRenderingContext2D,
+      layers: Layer[],
+      images: Map<string, LoadedLayerImage>,
+      canvasWidth: number,
+      canvasHeight: number,
+      options: CompositeOptions = {},
+  ): void {
+    ctx.clearRect(0, 0, canvasWidth, canvasHeight)
+    if (options.background) {
+      ctx.fillStyle = options.background
+      ctx.fillRect(0, 0, canvasWidth, canvasHeight)
+    }
+
+    const sortedLayers = layers.slice().sort((a, b) => a.zIndex - b.zIndex)
+    const layersById = new Map(layers.map((layer) => [layer.id, layer]))
+    const clippingBases = LayerTree.getClippingBaseIds(layers)
+    let scratch: CanvasRenderingContext2D | null = null
+
+    for (const layer of sortedLayers) {
+      const img = this.getLayerSource(layer, images.get(layer.id))
+      if (!img) {
+        continue
+      }
+
+      const rect = this.getLayerRect(layer, canvasWidth, canvasHeight)
+      const baseId = clippingBases.get(layer.id)
+      const base = baseId ? layersById.get(baseId) : undefined
+
+      if (!base) {
+        ctx.save()
+        ctx.globalAlpha = layer.opacity
+        ctx.globalCompositeOperation = BLEND_MODE_OPERATIONS[layer.blendMode] ?? "source-over"
+        ctx.drawImage(img, rect.x, rect.y, rect.width, rect.height)
+        ctx.restore()
+        continue
+      }
+
+      // Clipped layer: keep only the pixels where the base layer has alpha, then
+      // blend the result onto everything below
+      const baseImg = this.getLayerSource(base, images.get(base.id))
+      if (!baseImg) {
+        continue
+      }
+
+      scratch = scratch ?? this.createScratchContext(canvasWidth, canvasHeight)
+      if (!scratch) {
+        continue
+      }
+
+      const baseRect = this.getLayerRect(base, canvasWidth, canvasHeight)
+      scratch.save()
+      scratch.clearRect(0, 0, canvasWidth, canvasHeight)
+      scratch.drawImage(img, rect.x, rect.y, rect.width, rect.height)
+      scratch.globalCompositeOperation = "destination-in"
+      scratch.globalAlpha = base.opacity
+      scratch.drawImage(baseImg, baseRect.x, baseRect.y, baseRect.width, baseRect.height)
+      scratch.restore()
+
+      ctx.save()
+      ctx.globalAlpha = layer.opacity
+      ctx.globalCompositeOperation = BLEND_MODE_OPERATIONS[layer.blendMode] ?? "source-over"
+      ctx.drawImage(scratch.canvas, 0, 0)
+      ctx.restore()
+    }
+  }
+
+  // The layer image with its mask applied, at the layer's own size
+  private static getLayerSource(layer: Layer, loaded?: LoadedLayerImage): CanvasImageSource | null {
+    if (!loaded?.image) {
+      return null
+    }
+    if (!layer.maskEnabled || !loaded.mask) {
+      return loaded.image
+    }
+
+    const ctx = this.createScratchContext(layer.width, layer.height)
+    if (!ctx) {
+      return loaded.image
+    }
+
+    ctx.drawImage(loaded.image, 0, 0, layer.width, layer.height)
+    ctx.globalCompositeOperation = "destination-in"
+    ctx.drawImage(loaded.mask, 0, 0, layer.width, layer.height)
+    return ctx.canvas
+  }
+
+  private static createScratchContext(width: number, height: number): CanvasRenderingContext2D | null {
+    const canvas = document.createElement("canvas")
+    canvas.width = width
+    canvas.height = height
+    return canvas.getContext("2d")
+  }
+
+  // Loads and draws the given (already visibility-filtered) layers onto a canvas
+  static async renderToCanvas(
+      canvas: HTMLCanvasElement,
+      layers: Layer[],
+      canvasWidth: number,
+      canvasHeight: number,
+      options: CompositeOptions = {},
+  ): Promise<void> {
+    const ctx = canvas.getContext("2d")
+    if (!ctx) {
+      throw new Error("Could not create canvas context")
+    }
+
+    canvas.width = canvasWidth
+    canvas.height = canvasHeight
+
+    const images = await this.loadLayerImages(layers)
+    this.drawLayers(ctx, layers, images, canvasWidth, canvasHeight, options)
+    console.log("🎨 Composited layers:", layers.length, `${canvasWidth}x${canvasHeight}`)
+  }
+}
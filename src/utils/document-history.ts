@@ -0,0 +1,184 @@
+import type { Layer, LayerFolder, LayerPreset, PresetStack, ExclusiveGroup, LayerRule } from "@/types/project"
+
+// The part of the project that edits change and undo restores. View, selection
+// and export items are working state and stay out of the history.
+export interface DocumentState {
+  layers: Layer[]
+  folders: LayerFolder[]
+  presets: LayerPreset[]
+  presetStacks: PresetStack[]
+  exclusiveGroups: ExclusiveGroup[]
+  layerRules: LayerRule[]
+}
+
+// One named, undoable edit. Only the parts of the document the edit touched are
+// kept, as the values before and after it.
+export interface HistoryStep {
+  id: number
+  label: string
+  timestamp: number
+  mergeKey?: string // Steps with the same key in quick succession become one (e.g. dragging a slider)
+  before: Partial<DocumentState>
+  after: Partial<DocumentState>
+}
+
+export interface HistoryState {
+  past: HistoryStep[] // Oldest first; the last one is undone next
+  future: HistoryStep[] // Next to redo first
+}
+
+export const DEFAULT_HISTORY_DEPTH = 100
+const MERGE_WINDOW_MS = 1000
+
+let nextStepId = 1
+
+export class DocumentHistory {
+  static empty(): HistoryState {
+    return { past: [], future: [] }
+  }
+
+  // Returns null when the edit didn't change anything
+  static createStep(label: string, before: DocumentState, after: DocumentState, mergeKey?: string): HistoryStep | null {
+    const step: HistoryStep = { id: nextStepId++, label, timestamp: Date.now(), mergeKey, before: {}, after: {} }
+
+    for (const key of ["layers", "folders", "presets", "presetStacks", "exclusiveGroups", "layerRules"] as const) {
+      if (before[key] !== after[key]) {
+        step.before = { ...step.before, [key]: before[key] }
+        step.after = { ...step.after, [key]: after[key] }
+      }
+    }
+
+    return Object.keys(step.after).length > 0 ? step : null
+  }
+
+  // A new edit clears the redo list; the oldest steps are dropped beyond `depth`
+  static record(history: HistoryState, step: HistoryStep, depth: number): HistoryState {
+    const previous = history.past[history.past.length - 1]
+    if (
+        previous &&
+        step.mergeKey &&
+        previous.mergeKey === step.mergeKey &&
+        step.timestamp - previous.timestamp < MERGE_WINDOW_MS
+    ) {
+      const merged: HistoryStep = {
+        ...step,
+        before: { ...step.before, ...previous.before },
+        after: { ...previous.after, ...step.after },
+      }
+      return { past: [...history.past.slice(0, -1), merged], future: [] }
+    }
+
+    return { past: [...history.past, step].slice(-Math.max(1, depth)), future: [] }
+  }
+
+  static trim(history: HistoryState, depth: number): HistoryState {
+    return { past: history.past.slice(-Math.max(1, depth)), future: history.future }
+  }
+
+  static undo(history: HistoryState, state: DocumentState): { history: HistoryState; state: DocumentState } | null {
+    const step = history.past[history.past.length - 1]
+    if (!step) return null
+
+    return {
+      history: { past: history.past.slice(0, -1), future: [step, ...history.future] },
+      state: this.restore(state, step.before),
+    }
+  }
+
+  static redo(history: HistoryState, state: DocumentState): { history: HistoryState; state: DocumentState } | null {
+    const step = history.future[0]
+    if (!step) return null
+
+    return {
+      history: { past: [...history.past, step], future: history.future.slice(1) },
+      state: this.restore(state, step.after),
+    }
+  }
+
+  // Undoes or redoes until `pastLength` steps are applied
+  static jumpTo(history: HistoryState, state: DocumentState, pastLength: number): { history: HistoryState; state: DocumentState } {
+    let result = { history, state }
+    while (result.history.past.length > pastLength) {
+      result = this.undo(result.history, result.state) ?? result
+    }
+    while (result.history.past.length < pastLength && result.history.future.length > 0) {
+      result = this.redo(result.history, result.state) ?? result
+    }
+    return result
+  }
+
+  // Names a change made through the preset manager
+  static describePresetChange(before: LayerPreset[], after: LayerPreset[]): string {
+    // Same presets in the same order with just one of them changed
+    if (before.length === after.length && before.every((preset, index) => preset.id === after[index].id)) {
+      const changedIndexes = after.map((_, index) => index).filter((index) => after[index] !== before[index])
+      if (changedIndexes.length === 1) {
+        const previous = before[changedIndexes[0]]
+        const changed = after[changedIndexes[0]]
+        const isRename =
+            previous.name !== changed.name &&
+            previous.layer_states === changed.layer_states &&
+            previous.folder_states === changed.folder_states
+        return isRename ? `Rename preset ${previous.name} to ${changed.name}` : `Edit preset ${changed.name}`
+      }
+    }
+    return this.describeListChange(before, after, "preset")
+  }
+
+  static describeStackChange(before: PresetStack[], after: PresetStack[]): string {
+    return this.describeListChange(before, after, "stack")
+  }
+
+  static describeExclusiveGroupChange(before: ExclusiveGroup[], after: ExclusiveGroup[]): string {
+    return this.describeListChange(before, after, "exclusive group")
+  }
+
+  static describeRuleChange(before: LayerRule[], after: LayerRule[]): string {
+    const removed = before.filter((rule) => !after.some((r) => r.id === rule.id))
+    const added = after.filter((rule) => !before.some((r) => r.id === rule.id))
+    if (added.length === 1 && removed.length === 0) return `Add ${added[0].kind} rule`
+    if (removed.length === 1 && added.length === 0) return `Delete ${removed[0].kind} rule`
+    return "Edit layer rules"
+  }
+
+  private static describeListChange(before: { id: string; name: string }[], after: { id: string; name: string }[], noun: string): string {
+    const beforeIds = new Set(before.map((entry) => entry.id))
+    const afterIds = new Set(after.map((entry) => entry.id))
+    const added = after.filter((entry) => !beforeIds.has(entry.id))
+    const removed = before.filter((entry) => !afterIds.has(entry.id))
+
+    if (added.length === 1 && removed.length === 0) return `Create ${noun} ${added[0].name}`
+    if (removed.length === 1 && added.length === 0) return `Delete ${noun} ${removed[0].name}`
+    if (added.length === 0 && removed.length === 0 && before.some((entry, index) => entry.id !== after[index]?.id)) {
+      return `Reorder ${noun}s`
+    }
+    return `Edit ${noun}s`
+  }
+
+  // Image URLs and asset status describe files on disk, not edits, so restored
+  // layers keep the ones they have now (e.g. after a relink). Folders stay
+  // expanded or collapsed as they are.
+  private static restore(state: DocumentState, values: Partial<DocumentState>): DocumentState {
+    const restored = { ...state, ...values }
+
+    if (values.layers) {
+      const currentById = new Map(state.layers.map((layer) => [layer.id, layer]))
+      restored.layers = values.layers.map((layer) => {
+        const current = currentById.get(layer.id)
+        return current
+            ? { ...layer, src: current.src, maskSrc: current.maskSrc, file_path: current.file_path, assetStatus: current.assetStatus }
+            : layer
+      })
+    }
+
+    if (values.folders) {
+      const currentById = new Map(state.folders.map((folder) => [folder.id, folder]))
+      restored.folders = values.folders.map((folder) => {
+        const current = currentById.get(folder.id)
+        return current ? { ...folder, isExpanded: current.isExpanded } : folder
+      })
+    }
+
+    return restored
+  }
+}
@@ -0,0 +1,106 @@
+import { PresetUtils } from "./preset-utils"
+import type { Layer, LayerFolder, LayerPreset, ExclusiveGroup } from "@/types/project"
+
+export interface ExclusiveMember {
+  id: string
+  type: "layer" | "folder"
+  name: string
+  isVisible: boolean
+}
+
+export interface ExclusiveViolation {
+  groupId: string
+  message: string
+}
+
+export class ExclusiveGroups {
+  // Folder groups take the folder's direct children, layers and folders alike
+  static getMembers(group: ExclusiveGroup, layers: Layer[], folders: LayerFolder[]): ExclusiveMember[] {
+    if (group.folder_id) {
+      return [
+        ...folders
+            .filter((folder) => folder.parentId === group.folder_id)
+            .map((folder) => ({ id: folder.id, type: "folder" as const, name: folder.name, isVisible: folder.isVisible })),
+        ...layers
+            .filter((layer) => layer.parentId === group.folder_id)
+            .map((layer) => ({ id: layer.id, type: "layer" as const, name: layer.name, isVisible: layer.isVisible })),
+      ]
+    }
+
+    return layers
+        .filter((layer) => group.layer_ids.includes(layer.id))
+        .map((layer) => ({ id: layer.id, type: "layer" as const, name: layer.name, isVisible: layer.isVisible }))
+  }
+
+  // Shows a layer or folder and hides the other members of every group it is in
+  static show(
+      groups: ExclusiveGroup[],
+      layers: Layer[],
+      folders: LayerFolder[],
+      nodeId: string,
+  ): { layers: Layer[]; folders: LayerFolder[] } {
+    const hiddenIds = new Set<string>()
+    for (const group of groups) {
+      const members = this.getMembers(group, layers, folders)
+      if (members.some((member) => member.id === nodeId)) {
+        members.filter((member) => member.id !== nodeId).forEach((member) => hiddenIds.add(member.id))
+      }
+    }
+
+    const getVisibility = (id: string, isVisible: boolean) => (id === nodeId ? true : hiddenIds.has(id) ? false : isVisible)
+    return {
+      layers: layers.map((layer) => {
+        const isVisible = getVisibility(layer.id, layer.isVisible)
+        return isVisible === layer.isVisible ? layer : { ...layer, isVisible }
+      }),
+      folders: folders.map((folder) => {
+        const isVisible = getVisibility(folder.id, folder.isVisible)
+        return isVisible === folder.isVisible ? folder : { ...folder, isVisible }
+      }),
+    }
+  }
+
+  // The group that would be left with nothing visible if the node were hidden,
+  // unless that group allows none
+  static getBlockingGroup(
+      groups: ExclusiveGroup[],
+      layers: Layer[],
+      folders: LayerFolder[],
+      nodeId: string,
+  ): ExclusiveGroup | undefined {
+    return groups.find((group) => {
+      if (group.allow_none) return false
+      const members = this.getMembers(group, layers, folders)
+      return (
+          members.some((member) => member.id === nodeId && member.isVisible) &&
+          !members.some((member) => member.id !== nodeId && member.isVisible)
+      )
+    })
+  }
+
+  static getViolations(groups: ExclusiveGroup[], layers: Layer[], folders: LayerFolder[]): ExclusiveViolation[] {
+    return groups.flatMap((group) => {
+      const members = this.getMembers(group, layers, folders)
+      const visible = members.filter((member) => member.isVisible)
+
+      if (visible.length > 1) {
+        return [{ groupId: group.id, message: `${group.name}: ${visible.map((member) => member.name).join(", ")} are all visible` }]
+      }
+      if (visible.length === 0 && members.length > 0 && !group.allow_none) {
+        return [{ groupId: group.id, message: `${group.name}: nothing is visible` }]
+      }
+      return []
+    })
+  }
+
+  // What applying the preset to the current document would break. Partial presets
+  // leave unlisted layers as they are, so the current state counts.
+  static getPresetViolations(
+      groups: ExclusiveGroup[],
+      preset: LayerPreset,
+      layers: Layer[],
+      folders: LayerFolder[],
+  ): ExclusiveViolation[] {
+    return this.getViolations(groups, PresetUtils.applyToLayers(layers, preset), PresetUtils.applyToFolders(folders, preset))
+  }
+}
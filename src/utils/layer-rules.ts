@@ -0,0 +1,114 @@
+import { PresetUtils } from "./preset-utils"
+import type { Layer, LayerFolder, LayerPreset, LayerRule } from "@/types/project"
+
+export interface RuleViolation {
+  ruleId: string
+  message: string
+}
+
+export const LAYER_RULE_KINDS = ["requires", "excludes", "implies"] as const
+
+// Rule checks use each node's own visibility flag, so a layer hidden by its
+// folder still counts as shown
+export class LayerRules {
+  static describe(rule: LayerRule, layers: Layer[], folders: LayerFolder[]): string {
+    const source = this.getName(rule.source_id, layers, folders)
+    const target = this.getName(rule.target_id, layers, folders)
+    return rule.kind === "implies"
+        ? `${source} ${rule.target_visible ? "shows" : "hides"} ${target}`
+        : `${source} ${rule.kind} ${target}`
+  }
+
+  // Rules whose layers or folders are gone are skipped
+  static getViolations(rules: LayerRule[], layers: Layer[], folders: LayerFolder[]): RuleViolation[] {
+    const visibility = this.getVisibility(layers, folders)
+
+    return rules.flatMap((rule) => {
+      const source = visibility.get(rule.source_id)
+      const target = visibility.get(rule.target_id)
+      if (source === undefined || target === undefined || !source) return []
+
+      const description = this.describe(rule, layers, folders)
+      const targetName = this.getName(rule.target_id, layers, folders)
+      if (rule.kind === "requires" && !target) {
+        return [{ ruleId: rule.id, message: `${description}, but ${targetName} is hidden` }]
+      }
+      if (rule.kind === "excludes" && target) {
+        return [{ ruleId: rule.id, message: `${description}, but both are visible` }]
+      }
+      if (rule.kind === "implies" && target !== rule.target_visible) {
+        return [{ ruleId: rule.id, message: `${description}, but ${targetName} is ${target ? "visible" : "hidden"}` }]
+      }
+      return []
+    })
+  }
+
+  static getPresetViolations(
+      rules: LayerRule[],
+      preset: LayerPreset,
+      layers: Layer[],
+      folders: LayerFolder[],
+  ): RuleViolation[] {
+    return this.getViolations(rules, PresetUtils.applyToLayers(layers, preset), PresetUtils.applyToFolders(folders, preset))
+  }
+
+  // Follows the rules from a node the user just showed or hid:
+  // - showing a source shows what it requires, hides what it excludes and sets what it implies
+  // - showing a target hides the sources that exclude it
+  // - hiding a target hides the sources that require it
+  // Each node changes at most once, so rules that contradict each other can't loop.
+  static applyImplied(
+      rules: LayerRule[],
+      layers: Layer[],
+      folders: LayerFolder[],
+      changedId: string,
+  ): { layers: Layer[]; folders: LayerFolder[] } {
+    const visibility = this.getVisibility(layers, folders)
+    const settled = new Set([changedId])
+    const queue = [changedId]
+
+    const set = (id: string, isVisible: boolean) => {
+      if (settled.has(id) || visibility.get(id) === undefined || visibility.get(id) === isVisible) return
+      visibility.set(id, isVisible)
+      settled.add(id)
+      queue.push(id)
+    }
+
+    while (queue.length > 0) {
+      const id = queue.shift() as string
+      const isVisible = visibility.get(id)
+
+      for (const rule of rules) {
+        if (rule.source_id === id && isVisible) {
+          if (rule.kind === "requires") set(rule.target_id, true)
+          if (rule.kind === "excludes") set(rule.target_id, false)
+          if (rule.kind === "implies") set(rule.target_id, rule.target_visible)
+        }
+        if (rule.target_id === id) {
+          if (rule.kind === "excludes" && isVisible) set(rule.source_id, false)
+          if (rule.kind === "requires" && !isVisible) set(rule.source_id, false)
+        }
+      }
+    }
+
+    return {
+      layers: layers.map((layer) =>
+          visibility.get(layer.id) === layer.isVisible ? layer : { ...layer, isVisible: visibility.get(layer.id) as boolean },
+      ),
+      folders: folders.map((folder) =>
+          visibility.get(folder.id) === folder.isVisible ? folder : { ...folder, isVisible: visibility.get(folder.id) as boolean },
+      ),
+    }
+  }
+
+  private static getVisibility(layers: Layer[], folders: LayerFolder[]): Map<string, boolean> {
+    return new Map([
+      ...layers.map((layer) => [layer.id, layer.isVisible] as const),
+      ...folders.map((folder) => [folder.id, folder.isVisible] as const),
+    ])
+  }
+
+  private static getName(id: string, layers: Layer[], folders: LayerFolder[]): string {
+    return layers.find((layer) => layer.id === id)?.name ?? folders.find((folder) => folder.id === id)?.name ?? id
+  }
+}
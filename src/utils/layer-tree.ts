@@ -0,0 +1,217 @@
+import type { Layer, LayerFolder } from "@/types/project"
+
+export type LayerTreeNode =
+    | { type: "folder"; folder: LayerFolder; depth: number; children: LayerTreeNode[] }
+    | { type: "layer"; layer: Layer; depth: number }
+
+export type DropPosition = "above" | "below" | "inside"
+
+// Empty folders have no layers to take their position from; keep them at the top
+const EMPTY_FOLDER_KEY = Number.MAX_SAFE_INTEGER
+
+export class LayerTree {
+  static getNodeId(node: LayerTreeNode): string {
+    return node.type === "folder" ? node.folder.id : node.layer.id
+  }
+
+  // Builds the folder hierarchy with siblings ordered top-most first, as shown in the layer panel
+  static buildTree(layers: Layer[], folders: LayerFolder[]): LayerTreeNode[] {
+    const folderIds = new Set(folders.map((folder) => folder.id))
+    const parentOf = (parentId?: string | null) => (parentId && folderIds.has(parentId) ? parentId : null)
+
+    const build = (parentId: string | null, depth: number, ancestors: Set<string>): LayerTreeNode[] => {
+      const nodes: LayerTreeNode[] = []
+
+      for (const folder of folders) {
+        if (parentOf(folder.parentId) === parentId && !ancestors.has(folder.id)) {
+          const children = build(folder.id, depth + 1, new Set([...ancestors, folder.id]))
+          nodes.push({ type: "folder", folder, depth, children })
+        }
+      }
+
+      for (const layer of layers) {
+        if (parentOf(layer.parentId) === parentId) {
+          nodes.push({ type: "layer", layer, depth })
+        }
+      }
+
+      return nodes.sort((a, b) => this.getSortKey(b) - this.getSortKey(a))
+    }
+
+    return build(null, 0, new Set())
+  }
+
+  private static getSortKey(node: LayerTreeNode): number {
+    if (node.type === "layer") {
+      return node.layer.zIndex
+    }
+    return node.children.length > 0 ? Math.max(...node.children.map((child) => this.getSortKey(child))) : EMPTY_FOLDER_KEY
+  }
+
+  // Layers in compositing order (bottom first), keeping each folder's layers together
+  static flattenLayers(nodes: LayerTreeNode[]): Layer[] {
+    const result: Layer[] = []
+    const walk = (list: LayerTreeNode[]) => {
+      for (let i = list.length - 1; i >= 0; i--) {
+        const node = list[i]
+        if (node.type === "folder") {
+          walk(node.children)
+        } else {
+          result.push(node.layer)
+        }
+      }
+    }
+    walk(nodes)
+    return result
+  }
+
+  // Rows to show in the layer panel, skipping the contents of collapsed folders
+  static getDisplayNodes(nodes: LayerTreeNode[]): LayerTreeNode[] {
+    return nodes.flatMap((node) =>
+        node.type === "folder" && node.folder.isExpanded ? [node, ...this.getDisplayNodes(node.children)] : [node],
+    )
+  }
+
+  // Every row, including the contents of collapsed folders
+  static getAllNodes(nodes: LayerTreeNode[]): LayerTreeNode[] {
+    return nodes.flatMap((node) => (node.type === "folder" ? [node, ...this.getAllNodes(node.children)] : [node]))
+  }
+
+  static isFolderChainVisible(parentId: string | null | undefined, folders: LayerFolder[]): boolean {
+    const foldersById = new Map(folders.map((folder) => [folder.id, folder]))
+    const visited = new Set<string>()
+
+    let current = parentId ? foldersById.get(parentId) : undefined
+    while (current && !visited.has(current.id)) {
+      if (!current.isVisible) {
+        return false
+      }
+      visited.add(current.id)
+      current = current.parentId ? foldersById.get(current.parentId) : undefined
+    }
+    return true
+  }
+
+  // Layers that end up in the composite: visible themselves, in visible folders,
+  // and for clipping layers, clipped to a base that is itself visible
+  static getVisibleLayers(layers: Layer[], folders: LayerFolder[]): Layer[] {
+    const visible = layers.filter((layer) => layer.isVisible && this.isFolderChainVisible(layer.parentId, folders))
+    const visibleIds = new Set(visible.map((layer) => layer.id))
+    const clippingBases = this.getClippingBaseIds(layers)
+
+    return visible.filter((layer) => {
+      const baseId = clippingBases.get(layer.id)
+      return !baseId || visibleIds.has(baseId)
+    })
+  }
+
+  // Maps each clipping layer to the nearest non-clipping layer below it in the same
+  // folder, or null when there is none (such layers are drawn unclipped)
+  static getClippingBaseIds(layers: Layer[]): Map<string, string | null> {
+    const sorted = layers.slice().sort((a, b) => a.zIndex - b.zIndex)
+    const bases = new Map<string, string | null>()
+
+    sorted.forEach((layer, index) => {
+      if (!layer.clipping) return
+
+      let baseId: string | null = null
+      for (let i = index - 1; i >= 0; i--) {
+        const below = sorted[i]
+        if ((below.parentId ?? null) !== (layer.parentId ?? null)) break
+        if (!below.clipping) {
+          baseId = below.id
+          break
+        }
+      }
+      bases.set(layer.id, baseId)
+    })
+
+    return bases
+  }
+
+  static getDescendantLayerIds(folderId: string, layers: Layer[], folders: LayerFolder[]): string[] {
+    const folderIds = new Set([folderId])
+    let added = true
+    while (added) {
+      added = false
+      for (const folder of folders) {
+        if (folder.parentId && folderIds.has(folder.parentId) && !folderIds.has(folder.id)) {
+          folderIds.add(folder.id)
+          added = true
+        }
+      }
+    }
+    return layers.filter((layer) => layer.parentId && folderIds.has(layer.parentId)).map((layer) => layer.id)
+  }
+
+  // Moves a layer or folder next to (or into) the target and renumbers z-indexes so
+  // every folder's layers stay contiguous in the stack
+  static moveNode(
+      layers: Layer[],
+      folders: LayerFolder[],
+      draggedId: string,
+      targetId: string,
+      position: DropPosition,
+  ): { layers: Layer[]; folders: LayerFolder[] } {
+    const unchanged = { layers, folders }
+    if (draggedId === targetId) {
+      return unchanged
+    }
+
+    const tree = this.buildTree(layers, folders)
+    const dragged = this.locate(tree, draggedId, null)
+    const target = this.locate(tree, targetId, null)
+    if (!dragged || !target) {
+      return unchanged
+    }
+
+    // A folder can't be dropped inside itself
+    const draggedNode = dragged.list[dragged.index]
+    if (draggedNode.type === "folder" && this.locate(draggedNode.children, targetId, draggedId)) {
+      return unchanged
+    }
+
+    dragged.list.splice(dragged.index, 1)
+
+    const targetNode = target.list[target.list.findIndex((node) => this.getNodeId(node) === targetId)]
+    let newParentId: string | null
+    if (position === "inside" && targetNode.type === "folder") {
+      targetNode.children.unshift(draggedNode)
+      newParentId = targetNode.folder.id
+    } else {
+      const targetIndex = target.list.indexOf(targetNode)
+      target.list.splice(position === "below" ? targetIndex + 1 : targetIndex, 0, draggedNode)
+      newParentId = target.parentId
+    }
+
+    const zIndexes = new Map(this.flattenLayers(tree).map((layer, index) => [layer.id, index]))
+
+    return {
+      layers: layers.map((layer) => ({
+        ...layer,
+        parentId: layer.id === draggedId ? newParentId : layer.parentId ?? null,
+        zIndex: zIndexes.get(layer.id) ?? layer.zIndex,
+      })),
+      folders: folders.map((folder) => (folder.id === draggedId ? { ...folder, parentId: newParentId } : folder)),
+    }
+  }
+
+  private static locate(
+      list: LayerTreeNode[],
+      id: string,
+      parentId: string | null,
+  ): { list: LayerTreeNode[]; index: number; parentId: string | null } | null {
+    for (const [index, node] of list.entries()) {
+      if (this.getNodeId(node) === id) {
+        return { list, index, parentId }
+      }
+      if (node.type === "folder") {
+        const found = this.locate(node.children, id, node.folder.id)
+        if (found) {
+          return found
+        }
+      }
+    }
+    return null
+  }
+}
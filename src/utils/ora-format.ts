@@ -0,0 +1,341 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate"
+import type { Zippable } from "fflate"
+import type {
+  BlendMode,
+  ImportedProject,
+  Layer,
+  LayerFolder,
+  LayerPreset,
+  ProjectFolder,
+  ProjectLayer,
+} from "@/types/project"
+import type { ProjectDiagnostic } from "@/types/diagnostics"
+import { CURRENT_PROJECT_VERSION } from "./project-schema"
+import { BLEND_MODES, Compositor } from "./compositor"
+import { LayerTree } from "./layer-tree"
+import type { LayerTreeNode } from "./layer-tree"
+
+const ORA_MIMETYPE = "image/openraster"
+const THUMBNAIL_SIZE = 256
+
+// Extra data other OpenRaster apps ignore: layer/folder ids, clipping and masks
+// as attributes in our own namespace, and presets as a JSON file
+const CSPLM_NAMESPACE = "https://github.com/MrSypz/csplm/ora"
+const PRESETS_PATH = "csplm/presets.json"
+
+const toCompositeOp = (blendMode: BlendMode): string => {
+  if (blendMode === "normal") return "svg:src-over"
+  if (blendMode === "add") return "svg:plus"
+  return `svg:${blendMode}`
+}
+
+const fromCompositeOp = (op: string | null): BlendMode | undefined => {
+  if (!op || op === "svg:src-over") return "normal"
+  if (op === "svg:plus") return "add"
+  const mode = op.replace(/^svg:/, "") as BlendMode
+  return BLEND_MODES.includes(mode) ? mode : undefined
+}
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+export class OraFormat {
+  static isOraFile(name: string): boolean {
+    return /\.ora$/i.test(name)
+  }
+
+  // Turns stack.xml into project layers and folders; layer PNGs become in-memory assets
+  static async read(data: Uint8Array, fileName: string): Promise<ImportedProject> {
+    console.log("📥 Importing OpenRaster:", fileName, `${data.byteLength} bytes`)
+    const files = unzipSync(data)
+
+    if (files.mimetype && strFromU8(files.mimetype).trim() !== ORA_MIMETYPE) {
+      throw new Error("Not an OpenRaster file (unexpected mimetype)")
+    }
+    if (!files["stack.xml"]) {
+      throw new Error("OpenRaster file has no stack.xml")
+    }
+
+    const xml = new DOMParser().parseFromString(strFromU8(files["stack.xml"]), "application/xml")
+    const image = xml.querySelector("image")
+    if (!image || xml.querySelector("parsererror")) {
+      throw new Error("stack.xml could not be parsed")
+    }
+
+    const width = Number(image.getAttribute("w"))
+    const height = Number(image.getAttribute("h"))
+    const rootStack = Array.from(image.children).find((child) => child.tagName === "stack")
+    if (!rootStack || !(width > 0) || !(height > 0)) {
+      throw new Error("stack.xml has no root stack or image size")
+    }
+
+    // stack.xml lists elements top first; collect them and number z_index afterwards
+    const topFirstLayers: ProjectLayer[] = []
+    const folders: ProjectFolder[] = []
+    const assets = new Map<string, Blob>()
+    const diagnostics: ProjectDiagnostic[] = []
+    let counter = 0
+
+    const walk = async (stack: Element, parentId: string | null) => {
+      for (const element of Array.from(stack.children)) {
+        counter++
+        const name = element.getAttribute("name") || `Layer ${counter}`
+        const isVisible = element.getAttribute("visibility") !== "hidden"
+        const id = element.getAttributeNS(CSPLM_NAMESPACE, "id") || `ora-${element.tagName}-${counter}`
+
+        if (element.tagName === "stack") {
+          folders.push({ id, name, parent_id: parentId, is_visible: isVisible, is_expanded: true })
+          const opacity = Number(element.getAttribute("opacity") ?? 1)
+          if (opacity < 1 || fromCompositeOp(element.getAttribute("composite-op")) !== "normal") {
+            diagnostics.push({
+              severity: "warning",
+              message: `Folder "${name}" has its own opacity or blend mode, which folders don't support; it was ignored`,
+              field: "folders",
+            })
+          }
+          await walk(element, id)
+          continue
+        }
+
+        if (element.tagName !== "layer") {
+          continue
+        }
+
+        const src = element.getAttribute("src")
+        const file = src ? files[src] : undefined
+        if (!src || !file) {
+          diagnostics.push({ severity: "warning", message: `Layer "${name}" has no image (${src ?? "no src"}) and was skipped`, layerId: id })
+          continue
+        }
+
+        const blob = new Blob([file], { type: "image/png" })
+        const filePath = this.toAssetPath(src)
+        let size = { width, height }
+        try {
+          const bitmap = await createImageBitmap(blob)
+          size = { width: bitmap.width, height: bitmap.height }
+          bitmap.close()
+          assets.set(filePath, blob)
+        } catch (error) {
+          // Left out of the assets, so it loads as a canvas-sized placeholder
+          diagnostics.push({
+            severity: "warning",
+            message: `Layer "${name}" image ${src} could not be decoded; a placeholder will be shown (${error instanceof Error ? error.message : String(error)})`,
+            field: "file_path",
+            layerId: id,
+          })
+        }
+
+        const compositeOp = element.getAttribute("composite-op")
+        const blendMode = fromCompositeOp(compositeOp)
+        if (!blendMode) {
+          diagnostics.push({
+            severity: "warning",
+            message: `Layer "${name}" uses composite-op "${compositeOp}", which is not supported; normal will be used`,
+            field: "blend_mode",
+            layerId: id,
+          })
+        }
+
+        const layer: ProjectLayer = {
+          id,
+          name,
+          file_path: filePath,
+          width: size.width,
+          height: size.height,
+          is_visible: isVisible,
+          z_index: 0,
+          parent_id: parentId,
+          x: Number(element.getAttribute("x") ?? 0) || 0,
+          y: Number(element.getAttribute("y") ?? 0) || 0,
+          placement: "absolute",
+          opacity: Math.min(1, Math.max(0, Number(element.getAttribute("opacity") ?? 1))),
+          blend_mode: blendMode ?? "normal",
+          clipping: element.getAttributeNS(CSPLM_NAMESPACE, "clipping") === "true",
+          mask_path: null,
+          mask_enabled: element.getAttributeNS(CSPLM_NAMESPACE, "mask-enabled") !== "false",
+        }
+
+        const maskSrc = element.getAttributeNS(CSPLM_NAMESPACE, "mask")
+        if (maskSrc && files[maskSrc]) {
+          layer.mask_path = this.toAssetPath(maskSrc)
+          assets.set(layer.mask_path, new Blob([files[maskSrc]], { type: "image/png" }))
+        }
+
+        topFirstLayers.push(layer)
+      }
+    }
+
+    await walk(rootStack, null)
+
+    const layers = topFirstLayers.reverse().map((layer, index) => ({ ...layer, z_index: index }))
+    const presets = files[PRESETS_PATH] ? this.readPresets(strFromU8(files[PRESETS_PATH]), diagnostics) : []
+
+    console.log("✅ OpenRaster imported:", { layers: layers.length, folders: folders.length, presets: presets.length })
+
+    return {
+      project: {
+        version: CURRENT_PROJECT_VERSION,
+        canvas: { width, height },
+        layers,
+        folders,
+        presets,
+        preset_stacks: [],
+        exclusive_groups: [],
+        layer_rules: [],
+      },
+      assets,
+      diagnostics,
+    }
+  }
+
+  // Packages the layers (as placed on the canvas), a merged image, a thumbnail
+  // and the presets into an .ora file
+  static async write(
+      layers: Layer[],
+      folders: LayerFolder[],
+      presets: LayerPreset[],
+      canvasWidth: number,
+      canvasHeight: number,
+  ): Promise<Uint8Array> {
+    // mimetype has to be the first entry and stored uncompressed
+    const files: Zippable = { mimetype: [strToU8(ORA_MIMETYPE), { level: 0 }] }
+    const images = await Compositor.loadLayerImages(layers)
+    const tree = LayerTree.buildTree(layers, folders)
+
+    // Entries are numbered by position in the tree; z_index may repeat
+    const entryNumbers = new Map(
+        LayerTree.getAllNodes(tree)
+            .flatMap((node) => (node.type === "layer" ? [node.layer.id] : []))
+            .map((id, index) => [id, index]),
+    )
+
+    const writeElement = async (node: LayerTreeNode, indent: string): Promise<string> => {
+      if (node.type === "folder") {
+        const children = await Promise.all(node.children.map((child) => writeElement(child, `${indent}  `)))
+        return [
+          `${indent}<stack name="${escapeXml(node.folder.name)}" visibility="${node.folder.isVisible ? "visible" : "hidden"}" csplm:id="${escapeXml(node.folder.id)}">`,
+          ...children,
+          `${indent}</stack>`,
+        ].join("\n")
+      }
+
+      const layer = node.layer
+      const rect = Compositor.getLayerRect(layer, canvasWidth, canvasHeight)
+      const x = Math.round(rect.x)
+      const y = Math.round(rect.y)
+      const width = Math.max(1, Math.round(rect.width))
+      const height = Math.max(1, Math.round(rect.height))
+      const entryNumber = entryNumbers.get(layer.id)
+      const src = `data/layer${entryNumber}.png`
+
+      const image = images.get(layer.id)?.image
+      files[src] = await this.encodeImage(image ?? null, width, height)
+
+      const attributes = [
+        `name="${escapeXml(layer.name)}"`,
+        `src="${src}"`,
+        `x="${x}"`,
+        `y="${y}"`,
+        `opacity="${layer.opacity}"`,
+        `visibility="${layer.isVisible ? "visible" : "hidden"}"`,
+        `composite-op="${toCompositeOp(layer.blendMode)}"`,
+        `csplm:id="${escapeXml(layer.id)}"`,
+      ]
+      if (layer.clipping) {
+        attributes.push(`csplm:clipping="true"`)
+      }
+      if (layer.maskSrc) {
+        // Masks are stored at the placed size too, so they line up with the layer image when read back
+        const mask = await Compositor.loadImage(layer.maskSrc)
+        if (mask) {
+          const maskSrc = `data/layer${entryNumber}_mask.png`
+          files[maskSrc] = await this.encodeImage(mask, width, height)
+          attributes.push(`csplm:mask="${maskSrc}"`, `csplm:mask-enabled="${layer.maskEnabled}"`)
+        } else {
+          console.warn(`⚠️ Mask of layer "${layer.name}" could not be loaded; it will be missing from the OpenRaster file`)
+        }
+      }
+
+      return `${indent}<layer ${attributes.join(" ")}/>`
+    }
+
+    const elements = await Promise.all(tree.map((node) => writeElement(node, "    ")))
+    files["stack.xml"] = strToU8(
+        [
+          `<?xml version="1.0" encoding="UTF-8"?>`,
+          `<image version="0.0.5" w="${canvasWidth}" h="${canvasHeight}" xmlns:csplm="${CSPLM_NAMESPACE}">`,
+          `  <stack>`,
+          ...elements,
+          `  </stack>`,
+          `</image>`,
+        ].join("\n"),
+    )
+
+    const merged = document.createElement("canvas")
+    await Compositor.renderToCanvas(merged, LayerTree.getVisibleLayers(layers, folders), canvasWidth, canvasHeight)
+    files["mergedimage.png"] = await this.canvasToPng(merged)
+
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(canvasWidth, canvasHeight))
+    files["Thumbnails/thumbnail.png"] = await this.encodeImage(
+        merged,
+        Math.max(1, Math.round(canvasWidth * scale)),
+        Math.max(1, Math.round(canvasHeight * scale)),
+    )
+
+    files[PRESETS_PATH] = strToU8(JSON.stringify(presets, null, 2))
+
+    console.log("📦 OpenRaster packaged:", layers.length, "layers")
+    return zipSync(files)
+  }
+
+  private static toAssetPath(src: string): string {
+    return `assets/${src.replace(/^data\//, "").replace(/\//g, "_")}`
+  }
+
+  private static readPresets(content: string, diagnostics: ProjectDiagnostic[]): LayerPreset[] {
+    try {
+      const parsed: unknown = JSON.parse(content)
+      if (!Array.isArray(parsed)) {
+        throw new Error("not an array")
+      }
+      return parsed.filter(
+          (preset): preset is LayerPreset =>
+              typeof preset === "object" && preset !== null && typeof preset.id === "string" && typeof preset.layer_states === "object",
+      )
+    } catch (error) {
+      diagnostics.push({
+        severity: "warning",
+        message: `Presets in ${PRESETS_PATH} could not be read: ${error instanceof Error ? error.message : String(error)}`,
+        field: "presets",
+      })
+      return []
+    }
+  }
+
+  private static async encodeImage(source: CanvasImageSource | null, width: number, height: number): Promise<Uint8Array> {
+    const canvas = document.createElement("canvas")
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext("2d")
+    if (!ctx) {
+      throw new Error("Could not create canvas context")
+    }
+    if (source) {
+      ctx.drawImage(source, 0, 0, width, height)
+    }
+    return this.canvasToPng(canvas)
+  }
+
+  private static canvasToPng(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(async (blob) => {
+        if (!blob) {
+          reject(new Error("Failed to encode image"))
+          return
+        }
+        resolve(new Uint8Array(await blob.arrayBuffer()))
+      }, "image/png")
+    })
+  }
+}
@@ -0,0 +1,196 @@
+import type { Layer, LayerFolder, LayerPreset, PresetLibraryFile, PresetLibraryNode } from "@/types/project"
+
+export const PRESET_LIBRARY_FORMAT = "csplm-preset-library"
+export const PRESET_LIBRARY_VERSION = "1.0"
+
+// How a library layer or folder was found in the open project; "manual" once
+// the user picked it in the review dialog
+export type NodeMatchMethod = "id" | "name" | "path" | "fuzzy" | "manual"
+
+export interface NodeMatch {
+  kind: "layer" | "folder"
+  node: PresetLibraryNode
+  targetId: string | null
+  method: NodeMatchMethod | null
+}
+
+// Library node id -> id in the open project, or null to drop that node's entries
+export type PresetLibraryMapping = Record<string, string | null>
+
+// Fuzzy matches below this similarity (0-1) are left for the user to map
+const FUZZY_THRESHOLD = 0.7
+
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, "")
+const normalizePath = (folderPath: string[]): string => folderPath.map((name) => name.trim().toLowerCase()).join("/")
+
+export class PresetLibrary {
+  // Only the layers and folders the presets refer to are described
+  static create(presets: LayerPreset[], layers: Layer[], folders: LayerFolder[]): PresetLibraryFile {
+    const layerIds = new Set<string>()
+    const folderIds = new Set<string>()
+    for (const preset of presets) {
+      Object.keys(preset.layer_states).forEach((id) => layerIds.add(id))
+      Object.keys(preset.layer_properties ?? {}).forEach((id) => layerIds.add(id))
+      Object.keys(preset.mask_states ?? {}).forEach((id) => layerIds.add(id))
+      Object.keys(preset.folder_states ?? {}).forEach((id) => folderIds.add(id))
+    }
+
+    return {
+      format: PRESET_LIBRARY_FORMAT,
+      version: PRESET_LIBRARY_VERSION,
+      layers: layers
+          .filter((layer) => layerIds.has(layer.id))
+          .map((layer) => ({ id: layer.id, name: layer.name, folder_path: this.getFolderPath(layer.parentId, folders) })),
+      folders: folders
+          .filter((folder) => folderIds.has(folder.id))
+          .map((folder) => ({ id: folder.id, name: folder.name, folder_path: this.getFolderPath(folder.parentId, folders) })),
+      presets,
+    }
+  }
+
+  static parse(text: string): PresetLibraryFile {
+    const data = JSON.parse(text)
+    if (!data || data.format !== PRESET_LIBRARY_FORMAT) {
+      throw new Error("Not a preset library file")
+    }
+    if (!Array.isArray(data.layers) || !Array.isArray(data.folders) || !Array.isArray(data.presets)) {
+      throw new Error("Preset library is missing its layers, folders or presets")
+    }
+
+    const isNode = (node: PresetLibraryNode) =>
+        node && typeof node.id === "string" && typeof node.name === "string" && Array.isArray(node.folder_path)
+    const isPreset = (preset: LayerPreset) =>
+        preset && typeof preset.id === "string" && typeof preset.layer_states === "object" && preset.layer_states !== null
+
+    return {
+      format: PRESET_LIBRARY_FORMAT,
+      version: typeof data.version === "string" ? data.version : PRESET_LIBRARY_VERSION,
+      layers: data.layers.filter(isNode),
+      folders: data.folders.filter(isNode),
+      presets: data.presets.filter(isPreset).map((preset: LayerPreset) => ({
+        ...preset,
+        name: typeof preset.name === "string" ? preset.name : preset.id,
+        created_at: preset.created_at ?? new Date().toISOString(),
+      })),
+    }
+  }
+
+  // Each library node is matched by id, then exact name, then name within the
+  // same folder path, then the closest similar name. Every pass runs over all
+  // nodes before the next, and a layer or folder is only matched once.
+  static match(library: PresetLibraryFile, layers: Layer[], folders: LayerFolder[]): NodeMatch[] {
+    const layerCandidates = layers.map((layer) => ({
+      id: layer.id,
+      name: layer.name,
+      folder_path: this.getFolderPath(layer.parentId, folders),
+    }))
+    const folderCandidates = folders.map((folder) => ({
+      id: folder.id,
+      name: folder.name,
+      folder_path: this.getFolderPath(folder.parentId, folders),
+    }))
+
+    return [
+      ...this.matchNodes("layer", library.layers, layerCandidates),
+      ...this.matchNodes("folder", library.folders, folderCandidates),
+    ]
+  }
+
+  // Presets whose id is already taken get a new one
+  static apply(library: PresetLibraryFile, mapping: PresetLibraryMapping, existingPresets: LayerPreset[]): LayerPreset[] {
+    const usedIds = new Set(existingPresets.map((preset) => preset.id))
+    const remap = <T>(record: Record<string, T> | undefined): Record<string, T> => {
+      const remapped: Record<string, T> = {}
+      for (const [id, value] of Object.entries(record ?? {})) {
+        const targetId = mapping[id]
+        if (targetId) remapped[targetId] = value
+      }
+      return remapped
+    }
+
+    return library.presets.map((preset, index) => {
+      const id = usedIds.has(preset.id) ? `preset-${Date.now()}-${index}` : preset.id
+      usedIds.add(id)
+      return {
+        ...preset,
+        id,
+        layer_states: remap(preset.layer_states),
+        folder_states: remap(preset.folder_states),
+        layer_properties: remap(preset.layer_properties),
+        mask_states: remap(preset.mask_states),
+      }
+    })
+  }
+
+  static getFolderPath(parentId: string | null | undefined, folders: LayerFolder[]): string[] {
+    const foldersById = new Map(folders.map((folder) => [folder.id, folder]))
+    const names: string[] = []
+    const visited = new Set<string>()
+
+    let current = parentId ? foldersById.get(parentId) : undefined
+    while (current && !visited.has(current.id)) {
+      visited.add(current.id)
+      names.unshift(current.name)
+      current = current.parentId ? foldersById.get(current.parentId) : undefined
+    }
+    return names
+  }
+
+  private static matchNodes(kind: "layer" | "folder", nodes: PresetLibraryNode[], candidates: PresetLibraryNode[]): NodeMatch[] {
+    const matches: NodeMatch[] = nodes.map((node) => ({ kind, node, targetId: null, method: null }))
+    const claimed = new Set<string>()
+    const claim = (match: NodeMatch, targetId: string, method: NodeMatchMethod) => {
+      match.targetId = targetId
+      match.method = method
+      claimed.add(targetId)
+    }
+    const unmatched = () => matches.filter((match) => match.targetId === null)
+    const available = () => candidates.filter((candidate) => !claimed.has(candidate.id))
+
+    for (const match of unmatched()) {
+      if (candidates.some((candidate) => candidate.id === match.node.id) && !claimed.has(match.node.id)) {
+        claim(match, match.node.id, "id")
+      }
+    }
+
+    // A name shared by several layers is ambiguous and falls through to the path pass
+    for (const match of unmatched()) {
+      const sameName = available().filter((candidate) => candidate.name === match.node.name)
+      if (sameName.length === 1) claim(match, sameName[0].id, "name")
+    }
+
+    for (const match of unmatched()) {
+      const path = normalizePath([...match.node.folder_path, match.node.name])
+      const samePath = available().find((candidate) => normalizePath([...candidate.folder_path, candidate.name]) === path)
+      if (samePath) claim(match, samePath.id, "path")
+    }
+
+    for (const match of unmatched()) {
+      let best: { id: string; score: number } | null = null
+      for (const candidate of available()) {
+        const pathBonus = normalizePath(candidate.folder_path) === normalizePath(match.node.folder_path) ? 0.05 : 0
+        const score = this.similarity(normalizeName(match.node.name), normalizeName(candidate.name)) + pathBonus
+        if (!best || score > best.score) best = { id: candidate.id, score }
+      }
+      if (best && best.score >= FUZZY_THRESHOLD) claim(match, best.id, "fuzzy")
+    }
+
+    return matches
+  }
+
+  // 1 for equal strings, falling towards 0 with the edit distance
+  private static similarity(a: string, b: string): number {
+    if (a === b) return 1
+    if (a.length === 0 || b.length === 0) return 0
+
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i]
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      }
+      previous = current
+    }
+    return 1 - previous[b.length] / Math.max(a.length, b.length)
+  }
+}
@@ -0,0 +1,72 @@
+import { PresetUtils } from "./preset-utils"
+import type { LayerPreset } from "@/types/project"
+
+// One dimension of a variant matrix, e.g. "outfit" with a preset per outfit
+export interface MatrixAxis {
+  id: string
+  name: string
+  presetIds: string[]
+}
+
+export const MAX_MATRIX_COMBINATIONS = 1000
+
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|]/g
+
+export class PresetMatrix {
+  // Axes without presets are skipped so a half-built matrix still previews
+  static getActiveAxes(axes: MatrixAxis[]): MatrixAxis[] {
+    return axes.filter((axis) => axis.presetIds.length > 0)
+  }
+
+  static countCombinations(axes: MatrixAxis[]): number {
+    const activeAxes = this.getActiveAxes(axes)
+    return activeAxes.length === 0 ? 0 : activeAxes.reduce((count, axis) => count * axis.presetIds.length, 1)
+  }
+
+  // Cartesian product of the axes: one preset id per axis, in axis order
+  static getCombinations(axes: MatrixAxis[]): string[][] {
+    const activeAxes = this.getActiveAxes(axes)
+    if (activeAxes.length === 0) return []
+
+    return activeAxes.reduce<string[][]>(
+        (combinations, axis) => combinations.flatMap((combination) => axis.presetIds.map((id) => [...combination, id])),
+        [[]],
+    )
+  }
+
+  static getKey(combination: string[]): string {
+    return combination.join("+")
+  }
+
+  // "{outfit}_{expression}" for axes named outfit and expression
+  static getDefaultTemplate(axes: MatrixAxis[]): string {
+    return this.getActiveAxes(axes)
+        .map((axis) => `{${axis.name.trim()}}`)
+        .join("_")
+  }
+
+  // Replaces each {axis name} with the name of that axis' preset in the combination.
+  // Unknown placeholders are left as typed; characters that can't be in a file
+  // name become "-".
+  static formatName(template: string, axes: MatrixAxis[], combination: string[], presets: LayerPreset[]): string {
+    const presetNames = new Map<string, string>()
+    this.getActiveAxes(axes).forEach((axis, index) => {
+      const preset = presets.find((p) => p.id === combination[index])
+      presetNames.set(axis.name.trim(), preset?.name ?? "")
+    })
+
+    const name = template
+        .replace(/\{([^{}]+)\}/g, (placeholder, axisName: string) => presetNames.get(axisName.trim()) ?? placeholder)
+        .replace(INVALID_FILENAME_CHARS, "-")
+        .trim()
+    return name || "export"
+  }
+
+  // Presets later in the combination win, like a preset stack
+  static compose(combination: string[], name: string, presets: LayerPreset[]): LayerPreset {
+    return PresetUtils.composeStack(
+        { id: `matrix-${this.getKey(combination)}`, name, preset_ids: combination, created_at: new Date().toISOString() },
+        presets,
+    )
+  }
+}
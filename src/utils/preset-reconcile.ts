@@ -0,0 +1,101 @@
+import type { Layer, LayerFolder, LayerPreset } from "@/types/project"
+import { PresetUtils } from "./preset-utils"
+
+// What a preset is out of step with after layers were added or removed
+export interface PresetReport {
+  presetId: string
+  presetName: string
+  orphanLayerIds: string[] // Recorded in the preset, but the layer is gone
+  orphanFolderIds: string[]
+  uncoveredLayerIds: string[] // Layers a full preset says nothing about; always empty for partial presets
+  isPartial: boolean
+}
+
+export class PresetReconcile {
+  // Only presets with something to report are returned. Partial presets leave
+  // layers out on purpose, so only their orphaned ids count.
+  static check(presets: LayerPreset[], layers: Layer[], folders: LayerFolder[]): PresetReport[] {
+    const layerIds = new Set(layers.map((layer) => layer.id))
+    const folderIds = new Set(folders.map((folder) => folder.id))
+
+    return presets.flatMap((preset) => {
+      const recordedLayerIds = new Set([
+        ...Object.keys(preset.layer_states),
+        ...Object.keys(preset.layer_properties ?? {}),
+        ...Object.keys(preset.mask_states ?? {}),
+      ])
+      const orphanLayerIds = [...recordedLayerIds].filter((id) => !layerIds.has(id))
+      const orphanFolderIds = Object.keys(preset.folder_states ?? {}).filter((id) => !folderIds.has(id))
+      const isPartial = PresetUtils.isPartial(preset, layers)
+      const uncoveredLayerIds = isPartial
+          ? []
+          : layers.filter((layer) => preset.layer_states[layer.id] === undefined).map((layer) => layer.id)
+
+      if (orphanLayerIds.length + orphanFolderIds.length + uncoveredLayerIds.length === 0) {
+        return []
+      }
+      return [{
+        presetId: preset.id,
+        presetName: preset.name,
+        orphanLayerIds,
+        orphanFolderIds,
+        uncoveredLayerIds,
+        isPartial,
+      }]
+    })
+  }
+
+  // Worth showing without being asked: stale ids, or new layers in a full preset
+  static needsAttention(reports: PresetReport[]): boolean {
+    return reports.some(
+        (report) => report.orphanLayerIds.length + report.orphanFolderIds.length + report.uncoveredLayerIds.length > 0,
+    )
+  }
+
+  static dropOrphans(preset: LayerPreset, layers: Layer[], folders: LayerFolder[]): LayerPreset {
+    const layerIds = new Set(layers.map((layer) => layer.id))
+    const folderIds = new Set(folders.map((folder) => folder.id))
+    const keep = <T>(record: Record<string, T> | undefined, ids: Set<string>) =>
+        Object.fromEntries(Object.entries(record ?? {}).filter(([id]) => ids.has(id)))
+
+    return {
+      ...preset,
+      layer_states: keep(preset.layer_states, layerIds),
+      folder_states: keep(preset.folder_states, folderIds),
+      layer_properties: keep(preset.layer_properties, layerIds),
+      mask_states: keep(preset.mask_states, layerIds),
+    }
+  }
+
+  // Records a state for layers the preset doesn't cover; covered layers keep
+  // theirs. Partial presets are left alone.
+  static coverLayers(preset: LayerPreset, layers: Layer[], isVisible: boolean): LayerPreset {
+    if (PresetUtils.isPartial(preset, layers)) return preset
+
+    const layerStates = { ...preset.layer_states }
+    for (const layer of layers) {
+      if (layerStates[layer.id] === undefined) layerStates[layer.id] = isVisible
+    }
+    return { ...preset, layer_states: layerStates }
+  }
+
+  // Uncovered layers take the state the source preset has for them. Layers the
+  // source doesn't cover either stay uncovered; partial presets are left alone.
+  static copyUncovered(preset: LayerPreset, source: LayerPreset, layers: Layer[]): LayerPreset {
+    if (PresetUtils.isPartial(preset, layers)) return preset
+
+    const layerStates = { ...preset.layer_states }
+    for (const layer of layers) {
+      if (layerStates[layer.id] === undefined && source.layer_states[layer.id] !== undefined) {
+        layerStates[layer.id] = source.layer_states[layer.id]
+      }
+    }
+    return { ...preset, layer_states: layerStates }
+  }
+
+  // Accepts the uncovered layers as intended, so they stop being reported
+  static keepPartial(preset: LayerPreset, layers: Layer[]): LayerPreset {
+    const hasUncovered = layers.some((layer) => preset.layer_states[layer.id] === undefined)
+    return hasUncovered && !PresetUtils.isPartial(preset, layers) ? { ...preset, is_partial: true } : preset
+  }
+}
@@ -0,0 +1,83 @@
+import type { Layer, LayerFolder, LayerPreset } from "@/types/project"
+import { Compositor } from "./compositor"
+import { LayerTree } from "./layer-tree"
+import { PresetUtils } from "./preset-utils"
+
+// Longest side of a thumbnail in pixels
+export const THUMBNAIL_SIZE = 160
+
+// Renders are kept by key; the oldest are dropped past this many
+const MAX_CACHED_THUMBNAILS = 500
+
+// Small off-screen renders of what each preset shows. Thumbnails are cached by
+// everything the render depends on, so they are redrawn when a preset, a layer
+// or an asset URL (after a relink or reload) changes, and reused otherwise.
+export class PresetThumbnails {
+  private static cache = new Map<string, Promise<string>>()
+
+  // Layers a preset doesn't cover keep their current state, so partial presets
+  // also depend on what is showing now
+  static getKey(preset: LayerPreset, layers: Layer[], folders: LayerFolder[], canvasWidth: number, canvasHeight: number): string {
+    const visibleLayers = this.getVisibleLayers(preset, layers, folders)
+    return JSON.stringify([
+      canvasWidth,
+      canvasHeight,
+      visibleLayers.map((layer) => [
+        layer.src,
+        layer.maskEnabled ? layer.maskSrc : null,
+        layer.x,
+        layer.y,
+        layer.width,
+        layer.height,
+        layer.placement,
+        layer.zIndex,
+        layer.opacity,
+        layer.blendMode,
+        layer.clipping,
+      ]),
+    ])
+  }
+
+  // Resolves to a PNG data URL
+  static render(preset: LayerPreset, layers: Layer[], folders: LayerFolder[], canvasWidth: number, canvasHeight: number): Promise<string> {
+    const key = this.getKey(preset, layers, folders, canvasWidth, canvasHeight)
+    const cached = this.cache.get(key)
+    if (cached) {
+      return cached
+    }
+
+    const promise = this.draw(this.getVisibleLayers(preset, layers, folders), canvasWidth, canvasHeight).catch((error) => {
+      console.error("❌ Failed to render preset thumbnail:", preset.name, error)
+      this.cache.delete(key)
+      return ""
+    })
+
+    this.cache.set(key, promise)
+    if (this.cache.size > MAX_CACHED_THUMBNAILS) {
+      this.cache.delete(this.cache.keys().next().value as string)
+    }
+    return promise
+  }
+
+  private static getVisibleLayers(preset: LayerPreset, layers: Layer[], folders: LayerFolder[]): Layer[] {
+    return LayerTree.getVisibleLayers(PresetUtils.applyToLayers(layers, preset), PresetUtils.applyToFolders(folders, preset))
+  }
+
+  // Draws in document coordinates onto a canvas scaled down to thumbnail size
+  private static async draw(layers: Layer[], canvasWidth: number, canvasHeight: number): Promise<string> {
+    const scale = THUMBNAIL_SIZE / Math.max(canvasWidth, canvasHeight, 1)
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.max(1, Math.round(canvasWidth * scale))
+    canvas.height = Math.max(1, Math.round(canvasHeight * scale))
+
+    const ctx = canvas.getContext("2d")
+    if (!ctx) {
+      throw new Error("Could not create canvas context")
+    }
+
+    const images = await Compositor.loadLayerImages(layers)
+    ctx.scale(scale, scale)
+    Compositor.drawLayers(ctx, layers, images, canvasWidth, canvasHeight)
+    return canvas.toDataURL("image/png")
+  }
+}
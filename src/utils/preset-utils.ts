@@ -0,0 +1,204 @@
+import type { Layer, LayerFolder, LayerPreset, LayerPresetProperties, PresetStack } from "@/types/project"
+
+// The layers and folders a partial preset records; the rest are left unchanged
+export interface PresetScope {
+  layerIds: Set<string>
+  folderIds: Set<string>
+}
+
+export interface PresetStateCounts {
+  shown: number
+  hidden: number
+  unchanged: number
+}
+
+export class PresetUtils {
+  // Records the current visibility of every layer and folder (or only those in
+  // `scope`), the mask toggle of masked layers, and optionally each layer's
+  // opacity and blend mode
+  static capturePreset(
+      name: string,
+      allLayers: Layer[],
+      allFolders: LayerFolder[],
+      includeProperties = false,
+      scope?: PresetScope,
+  ): LayerPreset {
+    const layers = scope ? allLayers.filter((layer) => scope.layerIds.has(layer.id)) : allLayers
+    const folders = scope ? allFolders.filter((folder) => scope.folderIds.has(folder.id)) : allFolders
+
+    const layerStates: Record<string, boolean> = {}
+    layers.forEach((layer) => {
+      layerStates[layer.id] = layer.isVisible
+    })
+
+    const folderStates: Record<string, boolean> = {}
+    folders.forEach((folder) => {
+      folderStates[folder.id] = folder.isVisible
+    })
+
+    const maskStates: Record<string, boolean> = {}
+    layers.forEach((layer) => {
+      if (layer.mask_path) {
+        maskStates[layer.id] = layer.maskEnabled
+      }
+    })
+
+    const preset: LayerPreset = {
+      id: `preset-${Date.now()}`,
+      name,
+      layer_states: layerStates,
+      folder_states: folderStates,
+      is_partial: scope !== undefined,
+      created_at: new Date().toISOString(),
+    }
+
+    if (Object.keys(maskStates).length > 0) {
+      preset.mask_states = maskStates
+    }
+
+    if (includeProperties) {
+      const layerProperties: Record<string, LayerPresetProperties> = {}
+      layers.forEach((layer) => {
+        layerProperties[layer.id] = { opacity: layer.opacity, blend_mode: layer.blendMode }
+      })
+      preset.layer_properties = layerProperties
+    }
+
+    return preset
+  }
+
+  // Re-records the current state into an existing preset, keeping its id so
+  // stacks and export items still point at it. A partial preset keeps recording
+  // only the layers and folders it already had.
+  static recapturePreset(preset: LayerPreset, layers: Layer[], folders: LayerFolder[]): LayerPreset {
+    const scope = this.isPartial(preset, layers)
+        ? { layerIds: new Set(Object.keys(preset.layer_states)), folderIds: new Set(Object.keys(preset.folder_states ?? {})) }
+        : undefined
+    const captured = this.capturePreset(preset.name, layers, folders, preset.layer_properties !== undefined, scope)
+
+    return {
+      ...preset,
+      layer_states: captured.layer_states,
+      folder_states: captured.folder_states,
+      layer_properties: captured.layer_properties,
+      mask_states: captured.mask_states,
+      is_partial: captured.is_partial,
+    }
+  }
+
+  // The copy gets an id not in `usedIds`
+  static duplicatePreset(preset: LayerPreset, name: string, usedIds: Set<string>): LayerPreset {
+    let id = `preset-${Date.now()}`
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `preset-${Date.now()}-${suffix}`
+    }
+
+    return {
+      ...preset,
+      id,
+      name,
+      layer_states: { ...preset.layer_states },
+      folder_states: preset.folder_states && { ...preset.folder_states },
+      layer_properties: preset.layer_properties && { ...preset.layer_properties },
+      mask_states: preset.mask_states && { ...preset.mask_states },
+      created_at: new Date().toISOString(),
+    }
+  }
+
+  // Layers and folders that differ from `baseline`, a full capture such as the
+  // state right after the last preset was applied
+  static getChangedScope(layers: Layer[], folders: LayerFolder[], baseline: LayerPreset, includeProperties = false): PresetScope {
+    const baseProperties = baseline.layer_properties ?? {}
+    const baseMasks = baseline.mask_states ?? {}
+    const baseFolders = baseline.folder_states ?? {}
+
+    const layerIds = layers
+        .filter(
+            (layer) =>
+                baseline.layer_states[layer.id] !== layer.isVisible ||
+                (layer.mask_path && baseMasks[layer.id] !== layer.maskEnabled) ||
+                (includeProperties &&
+                    (baseProperties[layer.id]?.opacity !== layer.opacity || baseProperties[layer.id]?.blend_mode !== layer.blendMode)),
+        )
+        .map((layer) => layer.id)
+    const folderIds = folders.filter((folder) => baseFolders[folder.id] !== folder.isVisible).map((folder) => folder.id)
+
+    return { layerIds: new Set(layerIds), folderIds: new Set(folderIds) }
+  }
+
+  // How many of the project's layers the preset shows, hides or leaves alone
+  static getStateCounts(preset: LayerPreset, layers: Layer[]): PresetStateCounts {
+    const counts: PresetStateCounts = { shown: 0, hidden: 0, unchanged: 0 }
+    for (const layer of layers) {
+      const state = preset.layer_states[layer.id]
+      if (state === undefined) counts.unchanged++
+      else if (state) counts.shown++
+      else counts.hidden++
+    }
+    return counts
+  }
+
+  // Whether the preset leaves layers out on purpose, as recorded when it was
+  // saved. Presets from before the flag existed count as partial if they miss
+  // any layer.
+  static isPartial(preset: LayerPreset, layers: Layer[]): boolean {
+    return preset.is_partial ?? layers.some((layer) => preset.layer_states[layer.id] === undefined)
+  }
+
+  // "3/10 visible" for a full preset, "2 show · 1 hide · 7 unchanged" for a partial one
+  static getSummary(preset: LayerPreset, layers: Layer[]): string {
+    const { shown, hidden, unchanged } = this.getStateCounts(preset, layers)
+    return unchanged > 0 ? `${shown} show · ${hidden} hide · ${unchanged} unchanged` : `${shown}/${shown + hidden} visible`
+  }
+
+  // Folds a stack into one preset: each preset's entries override the earlier
+  // ones. Ids of deleted presets are skipped.
+  static composeStack(stack: PresetStack, presets: LayerPreset[]): LayerPreset {
+    const layerStates: Record<string, boolean> = {}
+    const folderStates: Record<string, boolean> = {}
+    const maskStates: Record<string, boolean> = {}
+    const layerProperties: Record<string, LayerPresetProperties> = {}
+
+    for (const presetId of stack.preset_ids) {
+      const preset = presets.find((p) => p.id === presetId)
+      if (!preset) continue
+
+      Object.assign(layerStates, preset.layer_states)
+      Object.assign(folderStates, preset.folder_states)
+      Object.assign(maskStates, preset.mask_states)
+      for (const [layerId, properties] of Object.entries(preset.layer_properties ?? {})) {
+        layerProperties[layerId] = { ...layerProperties[layerId], ...properties }
+      }
+    }
+
+    return {
+      id: stack.id,
+      name: stack.name,
+      layer_states: layerStates,
+      folder_states: folderStates,
+      layer_properties: layerProperties,
+      mask_states: maskStates,
+      created_at: stack.created_at,
+    }
+  }
+
+  static applyToLayers(layers: Layer[], preset: LayerPreset): Layer[] {
+    const layerProperties = preset.layer_properties ?? {}
+    const maskStates = preset.mask_states ?? {}
+    return layers.map((layer) => ({
+      ...layer,
+      isVisible: preset.layer_states[layer.id] ?? layer.isVisible,
+      opacity: layerProperties[layer.id]?.opacity ?? layer.opacity,
+      blendMode: layerProperties[layer.id]?.blend_mode ?? layer.blendMode,
+      maskEnabled: maskStates[layer.id] ?? layer.maskEnabled,
+    }))
+  }
+
+  static applyToFolders(folders: LayerFolder[], preset: LayerPreset): LayerFolder[] {
+    const folderStates = preset.folder_states ?? {}
+    return folders.map((folder) => ({
+      ...folder,
+      isVisible: folderStates[folder.id] ?? folder.isVisible,
+    }))
+  }
+}
@@ -0,0 +1,129 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate"
+import type { Zippable } from "fflate"
+import type { ImportedProject, Layer, LayerFolder, ProjectFile } from "@/types/project"
+import type { ProjectDiagnostic } from "@/types/diagnostics"
+import { ProjectLoader } from "./project-loader"
+import { Compositor } from "./compositor"
+import { LayerTree } from "./layer-tree"
+
+export const PROJECT_ARCHIVE_EXTENSION = "csplm"
+
+const PROJECT_JSON_PATH = "project.json"
+const THUMBNAIL_PATH = "thumbnails/project.png"
+const THUMBNAIL_SIZE = 256
+
+// Single-file project: project.json plus every layer image and mask under the
+// same relative paths the JSON refers to, and a thumbnail of the composite.
+// Assets are already compressed images, so they are stored rather than deflated.
+export class ProjectArchive {
+  static isArchiveFile(name: string): boolean {
+    return name.toLowerCase().endsWith(`.${PROJECT_ARCHIVE_EXTENSION}`)
+  }
+
+  static read(data: Uint8Array, fileName: string): ImportedProject {
+    console.log("📦 Opening project archive:", fileName, `${data.byteLength} bytes`)
+    const files = unzipSync(data)
+
+    if (!files[PROJECT_JSON_PATH]) {
+      throw new Error(`Project archive has no ${PROJECT_JSON_PATH}`)
+    }
+
+    const project = ProjectLoader.parseProjectData(strFromU8(files[PROJECT_JSON_PATH]))
+    const assets = new Map<string, Blob>()
+    const diagnostics: ProjectDiagnostic[] = []
+
+    project.layers.forEach((layer, layerIndex) => {
+      for (const [field, assetPath] of [["file_path", layer.file_path], ["mask_path", layer.mask_path]] as const) {
+        if (!assetPath) continue
+
+        const file = files[assetPath]
+        if (file) {
+          assets.set(assetPath, new Blob([file], { type: this.getMimeType(assetPath) }))
+        } else {
+          diagnostics.push({
+            severity: "warning",
+            message: `${assetPath} is not in the archive; a placeholder will be shown`,
+            field,
+            layerId: layer.id || undefined,
+            layerIndex,
+          })
+        }
+      }
+    })
+
+    console.log("✅ Project archive read:", { layers: project.layers.length, assets: assets.size })
+    return { project, assets, diagnostics }
+  }
+
+  // Packs the project with the current bytes of every layer image and mask.
+  // Images that only exist in memory come from `memoryAssets`, the rest are
+  // fetched from their display URL; placeholders are left out.
+  static async write(
+      project: ProjectFile,
+      layers: Layer[],
+      folders: LayerFolder[],
+      memoryAssets: Map<string, Blob>,
+  ): Promise<Uint8Array> {
+    const files: Zippable = { [PROJECT_JSON_PATH]: strToU8(JSON.stringify(project, null, 2)) }
+
+    for (const layer of layers) {
+      for (const [assetPath, src] of [[layer.file_path, layer.src], [layer.mask_path, layer.maskSrc]] as const) {
+        if (!assetPath || files[assetPath]) continue
+
+        const blob = memoryAssets.get(assetPath) ?? (src ? await this.fetchAsset(src) : null)
+        if (!blob) {
+          console.warn(`⚠️ No image for ${assetPath}; it will be missing from the archive`)
+          continue
+        }
+        files[assetPath] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }]
+      }
+    }
+
+    const thumbnail = await this.renderThumbnail(layers, folders, project.canvas.width, project.canvas.height)
+    if (thumbnail) {
+      files[THUMBNAIL_PATH] = [thumbnail, { level: 0 }]
+    }
+
+    console.log("📦 Project archive packed:", Object.keys(files).length, "entries")
+    return zipSync(files)
+  }
+
+  private static async fetchAsset(src: string): Promise<Blob | null> {
+    if (src.startsWith("data:image/svg+xml") || src.startsWith("/placeholder.svg")) {
+      return null
+    }
+
+    try {
+      const response = await fetch(src)
+      return response.ok ? await response.blob() : null
+    } catch (error) {
+      console.error(`❌ Failed to read asset ${src}:`, error)
+      return null
+    }
+  }
+
+  private static async renderThumbnail(
+      layers: Layer[],
+      folders: LayerFolder[],
+      canvasWidth: number,
+      canvasHeight: number,
+  ): Promise<Uint8Array | null> {
+    const full = document.createElement("canvas")
+    await Compositor.renderToCanvas(full, LayerTree.getVisibleLayers(layers, folders), canvasWidth, canvasHeight)
+
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(canvasWidth, canvasHeight))
+    const thumbnail = document.createElement("canvas")
+    thumbnail.width = Math.max(1, Math.round(canvasWidth * scale))
+    thumbnail.height = Math.max(1, Math.round(canvasHeight * scale))
+    thumbnail.getContext("2d")?.drawImage(full, 0, 0, thumbnail.width, thumbnail.height)
+
+    const blob = await new Promise<Blob | null>((resolve) => thumbnail.toBlob(resolve, "image/png"))
+    return blob ? new Uint8Array(await blob.arrayBuffer()) : null
+  }
+
+  private static getMimeType(assetPath: string): string {
+    if (/\.jpe?g$/i.test(assetPath)) return "image/jpeg"
+    if (/\.webp$/i.test(assetPath)) return "image/webp"
+    return "image/png"
+  }
+}
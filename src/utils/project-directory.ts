@@ -0,0 +1,209 @@
+import type { ImportedProject, ProjectFile } from "@/types/project"
+import type { ProjectDiagnostic } from "@/types/diagnostics"
+import { ProjectLoader } from "./project-loader"
+
+// Files of a picked or dropped folder, keyed by their path inside that folder
+export type DirectoryFiles = Map<string, File>
+
+// The parts of the File System Access API used here (not in TypeScript's DOM lib yet)
+interface DirectoryHandle {
+  kind: "directory"
+  name: string
+  values(): AsyncIterable<DirectoryHandle | FileHandle>
+}
+
+interface FileHandle {
+  kind: "file"
+  name: string
+  getFile(): Promise<File>
+}
+
+type DirectoryPickerWindow = Window & { showDirectoryPicker?: () => Promise<DirectoryHandle> }
+
+// Collapses "./", "../" and backslashes so paths from the JSON match folder paths
+const normalizePath = (value: string): string => {
+  const parts: string[] = []
+  for (const part of value.replace(/\\/g, "/").split("/")) {
+    if (!part || part === ".") continue
+    if (part === "..") parts.pop()
+    else parts.push(part)
+  }
+  return parts.join("/")
+}
+
+const dirname = (value: string): string => value.split("/").slice(0, -1).join("/")
+
+export class ProjectDirectory {
+  // Lets the user pick a folder with the File System Access API, falling back to
+  // a directory input. Resolves null when the picker is cancelled.
+  static async pick(): Promise<DirectoryFiles | null> {
+    const picker = (window as DirectoryPickerWindow).showDirectoryPicker
+    if (picker) {
+      try {
+        const handle = await picker.call(window)
+        const files: DirectoryFiles = new Map()
+        await this.readHandle(handle, "", files)
+        return files
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") {
+          return null
+        }
+        throw error
+      }
+    }
+
+    return new Promise((resolve) => {
+      const input = document.createElement("input")
+      input.type = "file"
+      input.webkitdirectory = true
+
+      let isSettled = false
+      const settle = (files: DirectoryFiles | null) => {
+        if (isSettled) return
+        isSettled = true
+        window.removeEventListener("focus", handleFocus)
+        resolve(files)
+      }
+      // Browsers without the input's cancel event only hand focus back to the
+      // page; a picked folder fires change shortly after
+      const handleFocus = () => {
+        setTimeout(() => {
+          if (!input.files || input.files.length === 0) settle(null)
+        }, 1000)
+      }
+
+      input.onchange = () => settle(input.files ? this.fromFileList(input.files) : null)
+      input.addEventListener("cancel", () => settle(null))
+      window.addEventListener("focus", handleFocus)
+      input.click()
+    })
+  }
+
+  // Paths from a directory input include the picked folder's name; drop it
+  static fromFileList(fileList: FileList): DirectoryFiles {
+    const files: DirectoryFiles = new Map()
+    for (const file of Array.from(fileList)) {
+      const relativePath = file.webkitRelativePath || file.name
+      files.set(normalizePath(relativePath.split("/").slice(1).join("/") || file.name), file)
+    }
+    return files
+  }
+
+  // Must be called while the drop event is being handled: entries are only
+  // available synchronously, the folders are then read in the background
+  static fromDataTransfer(dataTransfer: DataTransfer): Promise<DirectoryFiles> {
+    const entries = Array.from(dataTransfer.items)
+        .map((item) => item.webkitGetAsEntry())
+        .filter((entry): entry is FileSystemEntry => entry !== null)
+
+    return (async () => {
+      const files: DirectoryFiles = new Map()
+      // A single dropped folder is the project root
+      const root = entries.length === 1 && entries[0].isDirectory ? `${entries[0].name}/` : ""
+      for (const entry of entries) {
+        await this.readEntry(entry, files)
+      }
+      return root
+          ? new Map([...files].map(([filePath, file]) => [filePath.slice(root.length), file]))
+          : files
+    })()
+  }
+
+  // The project JSON closest to the folder root, preferring project.json. Other
+  // JSON files, such as an exported preset library, are skipped; if no JSON file
+  // is a project, the first one's parse error is thrown.
+  static async findProjectFile(files: DirectoryFiles): Promise<{ path: string; project: ProjectFile } | null> {
+    const depth = (filePath: string) => filePath.split("/").length
+    const isPreferred = (filePath: string) => Number(filePath.split("/").pop() === "project.json")
+
+    const candidates = [...files.keys()]
+        .filter((filePath) => filePath.toLowerCase().endsWith(".json"))
+        .sort((a, b) => depth(a) - depth(b) || isPreferred(b) - isPreferred(a))
+
+    let firstError: unknown = null
+    for (const filePath of candidates) {
+      try {
+        return { path: filePath, project: ProjectLoader.parseProjectData(await files.get(filePath)!.text()) }
+      } catch (error) {
+        console.log(`📁 ${filePath} is not a project file:`, error)
+        firstError = firstError ?? error
+      }
+    }
+
+    if (firstError) {
+      throw firstError
+    }
+    return null
+  }
+
+  // Resolves every file_path and mask_path relative to the project JSON
+  static resolveAssets(project: ProjectFile, projectPath: string, files: DirectoryFiles): ImportedProject {
+    const baseDir = dirname(projectPath)
+    const lowerCaseFiles = new Map([...files].map(([filePath, file]) => [filePath.toLowerCase(), file]))
+    const assets = new Map<string, Blob>()
+    const diagnostics: ProjectDiagnostic[] = []
+
+    project.layers.forEach((layer, layerIndex) => {
+      for (const [field, assetPath] of [["file_path", layer.file_path], ["mask_path", layer.mask_path]] as const) {
+        if (!assetPath || assets.has(assetPath)) continue
+
+        const resolved = normalizePath(baseDir ? `${baseDir}/${assetPath}` : assetPath)
+        const file = files.get(resolved) ?? lowerCaseFiles.get(resolved.toLowerCase())
+        if (file) {
+          assets.set(assetPath, file)
+        } else {
+          diagnostics.push({
+            severity: "warning",
+            message: `File not found in the folder: ${resolved}`,
+            field,
+            layerId: layer.id || undefined,
+            layerIndex,
+          })
+        }
+      }
+    })
+
+    console.log("📁 Resolved project folder assets:", { found: assets.size, missing: diagnostics.length })
+    return { project, assets, diagnostics }
+  }
+
+  static async loadProject(files: DirectoryFiles): Promise<{ fileName: string; imported: ImportedProject }> {
+    const found = await this.findProjectFile(files)
+    if (!found) {
+      throw new Error("No project JSON file found in the folder")
+    }
+
+    return { fileName: found.path.split("/").pop() || found.path, imported: this.resolveAssets(found.project, found.path, files) }
+  }
+
+  private static async readHandle(handle: DirectoryHandle, prefix: string, files: DirectoryFiles): Promise<void> {
+    for await (const child of handle.values()) {
+      const childPath = prefix ? `${prefix}/${child.name}` : child.name
+      if (child.kind === "directory") {
+        await this.readHandle(child, childPath, files)
+      } else {
+        files.set(childPath, await child.getFile())
+      }
+    }
+  }
+
+  private static async readEntry(entry: FileSystemEntry, files: DirectoryFiles): Promise<void> {
+    const entryPath = normalizePath(entry.fullPath || entry.name)
+
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))
+      files.set(entryPath, file)
+      return
+    }
+
+    const reader = (entry as FileSystemDirectoryEntry).createReader()
+    // readEntries returns results in batches until it yields an empty list
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+      if (batch.length === 0) break
+      for (const child of batch) {
+        await this.readEntry(child, files)
+      }
+    }
+  }
+}
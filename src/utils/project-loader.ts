@@ -1,4 +1,24 @@
-import type { ProjectFile, ProjectLayer, Layer } from "@/types/project"
+import type {
+  ProjectFile,
+  ProjectLayer,
+  ProjectCanvas,
+  ProjectFolder,
+  LayerFolder,
+  LayerPlacement,
+  AssetStatus,
+  Layer,
+  LayerPreset,
+  PresetStack,
+  ExclusiveGroup,
+  LayerRule,
+  ProjectSession,
+  SessionState,
+  ExportItem,
+} from "@/types/project"
+import { ProjectSchema, CURRENT_PROJECT_VERSION } from "./project-schema"
+import { BLEND_MODES } from "./compositor"
+import { PresetUtils } from "./preset-utils"
+import { PresetMatrix } from "./preset-matrix"
 
 export class ProjectLoader {
   static isTauri(): boolean {
@@ -11,45 +31,9 @@ export class ProjectLoader {
 
       reader.onload = (e) => {
         try {
-          const content = e.target?.result as string
-          const project: ProjectFile = JSON.parse(content)
-
-          // Validate project structure
-          if (!project.version) {
-            throw new Error("Missing version field")
-          }
-
-          if (!project.canvas || typeof project.canvas.width !== 'number' || typeof project.canvas.height !== 'number') {
-            throw new Error("Missing or invalid canvas dimensions")
-          }
-
-          if (!Array.isArray(project.layers)) {
-            throw new Error("Missing or invalid layers array")
-          }
-
-          if (!Array.isArray(project.presets)) {
-            throw new Error("Missing or invalid presets array")
-          }
-
-          // Validate canvas dimensions are reasonable
-          if (project.canvas.width <= 0 || project.canvas.height <= 0) {
-            throw new Error("Canvas dimensions must be positive")
-          }
-
-          if (project.canvas.width > 50000 || project.canvas.height > 50000) {
-            throw new Error("Canvas dimensions are too large (max 50000px)")
-          }
-
-          console.log("✅ Project validation passed:", {
-            version: project.version,
-            canvas: project.canvas,
-            layerCount: project.layers.length,
-            presetCount: project.presets.length
-          })
-
-          resolve(project)
+          resolve(this.parseProjectData(e.target?.result as string))
         } catch (error) {
-          reject(new Error(`Failed to parse project file: ${error instanceof Error ? error.message : String(error)}`))
+          reject(error)
         }
       }
 
@@ -58,37 +42,168 @@ export class ProjectLoader {
     })
   }
 
-  static convertProjectLayersToRuntimeLayers(projectLayers: ProjectLayer[], projectDir?: string): Layer[] {
-    console.log("🔄 Converting project layers to runtime layers:", projectLayers.length, "layers")
+  // Parses project JSON and upgrades it to the current schema version
+  static parseProjectData(content: string): ProjectFile {
+    try {
+      const project = ProjectSchema.migrate(JSON.parse(content))
+
+      console.log("✅ Project validation passed:", {
+        version: project.version,
+        canvas: project.canvas,
+        layerCount: project.layers.length,
+        presetCount: project.presets.length
+      })
+
+      return project
+    } catch (error) {
+      throw new Error(`Failed to parse project file: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
 
-    const layers = projectLayers
+  // Fills in defaults for the problems ProjectValidator reports as warnings and
+  // returns the layers in stacking order. Indices refer to the order in the file.
+  static normalizeProjectLayers(projectLayers: ProjectLayer[], canvas: ProjectCanvas, folders: ProjectFolder[] = []): ProjectLayer[] {
+    const folderIds = new Set(folders.map((folder) => folder.id))
+
+    // Layers without an id get one that no other layer in the file uses
+    const usedIds = new Set(projectLayers.map((layer) => layer.id).filter(Boolean))
+    const claimFallbackId = (index: number) => {
+      let id = `layer-${index}`
+      for (let suffix = 2; usedIds.has(id); suffix++) {
+        id = `layer-${index}-${suffix}`
+      }
+      usedIds.add(id)
+      return id
+    }
+
+    return projectLayers
+        .map((layer, index) => ({
+          id: layer.id || claimFallbackId(index),
+          name: layer.name || `Layer ${index + 1}`,
+          file_path: layer.file_path || "",
+          width: layer.width > 0 ? layer.width : canvas.width,
+          height: layer.height > 0 ? layer.height : canvas.height,
+          is_visible: typeof layer.is_visible === 'boolean' ? layer.is_visible : true,
+          z_index: typeof layer.z_index === 'number' ? layer.z_index : index,
+          parent_id: layer.parent_id && folderIds.has(layer.parent_id) ? layer.parent_id : null,
+          x: typeof layer.x === 'number' ? layer.x : 0,
+          y: typeof layer.y === 'number' ? layer.y : 0,
+          placement: this.normalizePlacement(layer),
+          opacity: typeof layer.opacity === 'number' ? Math.min(1, Math.max(0, layer.opacity)) : 1,
+          blend_mode: layer.blend_mode && BLEND_MODES.includes(layer.blend_mode) ? layer.blend_mode : "normal",
+          clipping: layer.clipping === true,
+          mask_path: typeof layer.mask_path === 'string' && layer.mask_path ? layer.mask_path : null,
+          mask_enabled: layer.mask_enabled !== false,
+        }))
         .sort((a, b) => a.z_index - b.z_index) // Sort by z_index
-        .map((layer, index) => {
-          // Validate layer data
-          const width = layer.width > 0 ? layer.width : 1920
-          const height = layer.height > 0 ? layer.height : 1080
-
-          const runtimeLayer = {
-            id: layer.id || `layer-${index}`,
-            name: layer.name || `Layer ${index + 1}`,
-            src: this.convertFilePathToSrc(layer.file_path, width, height, projectDir),
-            file_path: layer.file_path || `./assets/layer_${index + 1}.png`,
-            width,
-            height,
-            isVisible: typeof layer.is_visible === 'boolean' ? layer.is_visible : true,
-            zIndex: typeof layer.z_index === 'number' ? layer.z_index : index,
-          }
-
-          console.log(`🎨 Converted layer ${index + 1}: ${runtimeLayer.name}`, {
-            id: runtimeLayer.id,
-            src: runtimeLayer.src,
-            size: `${runtimeLayer.width}x${runtimeLayer.height}`,
-            visible: runtimeLayer.isVisible,
-            zIndex: runtimeLayer.zIndex
-          })
-
-          return runtimeLayer
-        })
+  }
+
+  private static normalizePlacement(layer: ProjectLayer): LayerPlacement {
+    if (layer.placement === "absolute" || layer.placement === "fit" || layer.placement === "stretch") {
+      return layer.placement
+    }
+    return typeof layer.x === 'number' || typeof layer.y === 'number' ? "absolute" : "fit"
+  }
+
+  // Drops references to unknown parent folders and breaks parent cycles
+  static normalizeProjectFolders(folders: ProjectFolder[]): ProjectFolder[] {
+    const foldersById = new Map(folders.map((folder) => [folder.id, folder]))
+    const parentIds = new Map<string, string | null>()
+
+    for (const folder of folders) {
+      let parentId = folder.parent_id && foldersById.has(folder.parent_id) ? folder.parent_id : null
+
+      // Walk up the chain; if we get back to this folder, detach it to the top level
+      const visited = new Set([folder.id])
+      let current = parentId
+      while (current) {
+        if (visited.has(current)) {
+          parentId = null
+          break
+        }
+        visited.add(current)
+        current = parentIds.has(current) ? parentIds.get(current)! : foldersById.get(current)?.parent_id ?? null
+      }
+
+      parentIds.set(folder.id, parentId)
+    }
+
+    return folders.map((folder) => ({
+      id: folder.id,
+      name: folder.name || "Folder",
+      parent_id: parentIds.get(folder.id) ?? null,
+      is_visible: typeof folder.is_visible === 'boolean' ? folder.is_visible : true,
+      is_expanded: folder.is_expanded !== false,
+    }))
+  }
+
+  static convertProjectFoldersToRuntimeFolders(folders: ProjectFolder[]): LayerFolder[] {
+    return this.normalizeProjectFolders(folders).map((folder) => ({
+      id: folder.id,
+      name: folder.name,
+      parentId: folder.parent_id ?? null,
+      isVisible: folder.is_visible,
+      isExpanded: folder.is_expanded !== false,
+    }))
+  }
+
+  static convertRuntimeFoldersToProjectFolders(folders: LayerFolder[]): ProjectFolder[] {
+    return folders.map((folder) => ({
+      id: folder.id,
+      name: folder.name,
+      parent_id: folder.parentId,
+      is_visible: folder.isVisible,
+      is_expanded: folder.isExpanded,
+    }))
+  }
+
+  static convertProjectLayersToRuntimeLayers(
+      projectLayers: ProjectLayer[],
+      canvas: ProjectCanvas,
+      folders: ProjectFolder[] = [],
+      projectDir?: string,
+  ): Layer[] {
+    console.log("🔄 Converting project layers to runtime layers:", projectLayers.length, "layers")
+
+    const layers = this.normalizeProjectLayers(projectLayers, canvas, folders).map((layer, index) => {
+      const runtimeLayer = {
+        id: layer.id,
+        name: layer.name,
+        src: this.convertFilePathToSrc(layer.file_path, layer.width, layer.height, projectDir),
+        file_path: layer.file_path,
+        width: layer.width,
+        height: layer.height,
+        isVisible: layer.is_visible,
+        zIndex: layer.z_index,
+        parentId: layer.parent_id ?? null,
+        x: layer.x ?? 0,
+        y: layer.y ?? 0,
+        placement: layer.placement ?? "absolute",
+        opacity: layer.opacity ?? 1,
+        blendMode: layer.blend_mode ?? "normal",
+        clipping: layer.clipping === true,
+        maskSrc: layer.mask_path ? this.convertMaskPathToSrc(layer.mask_path, projectDir) : null,
+        mask_path: layer.mask_path ?? null,
+        maskEnabled: layer.mask_enabled !== false,
+        assetStatus: "ok" as AssetStatus,
+      }
+      if (this.isPlaceholderSrc(runtimeLayer.src)) {
+        runtimeLayer.assetStatus = "missing"
+      }
+
+      console.log(`🎨 Converted layer ${index + 1}: ${runtimeLayer.name}`, {
+        id: runtimeLayer.id,
+        src: runtimeLayer.src,
+        size: `${runtimeLayer.width}x${runtimeLayer.height}`,
+        offset: `${runtimeLayer.x},${runtimeLayer.y} (${runtimeLayer.placement})`,
+        blend: `${runtimeLayer.blendMode} @ ${runtimeLayer.opacity}`,
+        mask: runtimeLayer.maskSrc,
+        visible: runtimeLayer.isVisible,
+        zIndex: runtimeLayer.zIndex
+      })
+
+      return runtimeLayer
+    })
 
     console.log("✅ All layers converted:", layers.length)
     return layers
@@ -103,6 +218,15 @@ export class ProjectLoader {
       height: layer.height,
       is_visible: layer.isVisible,
       z_index: layer.zIndex,
+      parent_id: layer.parentId ?? null,
+      x: layer.x,
+      y: layer.y,
+      placement: layer.placement,
+      opacity: layer.opacity,
+      blend_mode: layer.blendMode,
+      clipping: layer.clipping,
+      mask_path: layer.mask_path,
+      mask_enabled: layer.maskEnabled,
     }))
   }
 
@@ -128,7 +252,45 @@ export class ProjectLoader {
     return placeholder
   }
 
-  private static createPlaceholder(text: string, width: number, height: number): string {
+  // Points layers at in-memory images (e.g. imported from a PSD) by file path
+  static applyAssetUrls(layers: Layer[], assetUrls: Map<string, string>): Layer[] {
+    if (assetUrls.size === 0) {
+      return layers
+    }
+
+    return layers.map((layer) => {
+      const src = assetUrls.get(layer.file_path)
+      return {
+        ...layer,
+        src: src ?? layer.src,
+        maskSrc: (layer.mask_path && assetUrls.get(layer.mask_path)) || layer.maskSrc,
+        assetStatus: src ? "ok" : layer.assetStatus,
+      }
+    })
+  }
+
+  // Masks have no placeholder: a mask that can't be resolved is simply not applied
+  static convertMaskPathToSrc(maskPath: string, projectDir?: string): string | null {
+    if (this.isTauri() && projectDir) {
+      console.log(`🔄 Tauri mode: mask ${maskPath} will be resolved later with real assets`)
+      return null
+    }
+
+    if (maskPath.includes("assets/")) {
+      const filename = maskPath.split("/").pop()
+      if (filename) {
+        return `/project-assets/${filename}`
+      }
+    }
+
+    return null
+  }
+
+  static isPlaceholderSrc(src: string): boolean {
+    return src.startsWith("data:image/svg+xml")
+  }
+
+  static createPlaceholder(text: string, width: number, height: number): string {
     const svg = `
       <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
         <rect width="100%" height="100%" fill="#f0f0f0" stroke="#ddd" stroke-width="2"/>
@@ -145,20 +307,146 @@ export class ProjectLoader {
     return `data:image/svg+xml;base64,${btoa(svg)}`
   }
 
-  static exportProject(layers: Layer[], presets: any[], canvasWidth: number, canvasHeight: number): ProjectFile {
-    return {
-      version: "1.0",
+  static exportProject(
+      layers: Layer[],
+      folders: LayerFolder[],
+      presets: LayerPreset[],
+      presetStacks: PresetStack[],
+      exclusiveGroups: ExclusiveGroup[],
+      layerRules: LayerRule[],
+      canvasWidth: number,
+      canvasHeight: number,
+      session?: SessionState,
+      presetThumbnails?: Record<string, string>,
+  ): ProjectFile {
+    const project: ProjectFile = {
+      version: CURRENT_PROJECT_VERSION,
       canvas: {
         width: canvasWidth,
         height: canvasHeight,
       },
       layers: this.convertRuntimeLayersToProjectLayers(layers),
+      folders: this.convertRuntimeFoldersToProjectFolders(folders),
       presets: presets.map((preset) => ({
         id: preset.id,
         name: preset.name,
-        layer_states: preset.layerStates || preset.layer_states,
-        created_at: preset.createdAt ? preset.createdAt.toISOString() : preset.created_at || new Date().toISOString(),
+        layer_states: preset.layer_states,
+        folder_states: preset.folder_states,
+        layer_properties: preset.layer_properties,
+        mask_states: preset.mask_states,
+        is_partial: preset.is_partial,
+        created_at: preset.created_at,
+      })),
+      preset_stacks: presetStacks.map((stack) => ({
+        id: stack.id,
+        name: stack.name,
+        preset_ids: stack.preset_ids,
+        created_at: stack.created_at,
+      })),
+      exclusive_groups: exclusiveGroups.map((group) => ({
+        id: group.id,
+        name: group.name,
+        folder_id: group.folder_id,
+        layer_ids: group.layer_ids,
+        allow_none: group.allow_none,
+      })),
+      layer_rules: layerRules.map((rule) => ({
+        id: rule.id,
+        kind: rule.kind,
+        source_id: rule.source_id,
+        target_id: rule.target_id,
+        target_visible: rule.target_visible,
       })),
     }
+
+    if (session) {
+      project.session = this.convertSessionStateToProjectSession(session)
+    }
+
+    if (presetThumbnails) {
+      project.preset_thumbnails = Object.fromEntries(
+          presets.filter((preset) => presetThumbnails[preset.id]).map((preset) => [preset.id, presetThumbnails[preset.id]]),
+      )
+    }
+
+    return project
+  }
+
+  static convertSessionStateToProjectSession(session: SessionState): ProjectSession {
+    return {
+      selected_layer_id: session.selectedLayerId,
+      view: {
+        zoom: session.zoom,
+        pan_x: session.panX,
+        pan_y: session.panY,
+      },
+      export_queue: session.exportItems.map((item) => ({
+        id: item.id,
+        name: item.name,
+        ...(item.stackId
+            ? { stack_id: item.stackId }
+            : item.presetIds
+                ? { preset_ids: item.presetIds }
+                : { preset_id: item.preset.id }),
+        format: item.format,
+        quality: item.quality,
+        enabled: item.enabled,
+      })),
+    }
+  }
+
+  // Older project files have no session; returns undefined so callers keep their defaults
+  static convertProjectSessionToSessionState(
+      session: ProjectSession | undefined,
+      layers: Layer[],
+      presets: LayerPreset[],
+      presetStacks: PresetStack[] = [],
+  ): SessionState | undefined {
+    if (!session || typeof session !== "object") {
+      return undefined
+    }
+
+    const view = session.view
+    const zoom = view && typeof view.zoom === "number" && view.zoom > 0 ? view.zoom : 0.3
+    const panX = view && typeof view.pan_x === "number" ? view.pan_x : 0
+    const panY = view && typeof view.pan_y === "number" ? view.pan_y : 0
+
+    const selectedLayerId = layers.some((layer) => layer.id === session.selected_layer_id)
+        ? session.selected_layer_id
+        : layers.length > 0 ? layers[0].id : null
+
+    const exportItems: ExportItem[] = []
+    for (const item of Array.isArray(session.export_queue) ? session.export_queue : []) {
+      // Matrix combinations are only kept while every preset in them still exists
+      const presetIds = Array.isArray(item.preset_ids) ? item.preset_ids : undefined
+      const stack = item.stack_id ? presetStacks.find((s) => s.id === item.stack_id) : undefined
+      let preset: LayerPreset | undefined
+      if (stack) {
+        preset = PresetUtils.composeStack(stack, presets)
+      } else if (presetIds) {
+        const isComplete = presetIds.every((id) => presets.some((p) => p.id === id))
+        preset = isComplete ? PresetMatrix.compose(presetIds, item.name, presets) : undefined
+      } else {
+        preset = presets.find((p) => p.id === item.preset_id)
+      }
+      if (!preset) {
+        const source = item.stack_id ? `stack ${item.stack_id}` : presetIds ? `presets ${presetIds.join(", ")}` : `preset ${item.preset_id}`
+        console.warn(`⚠️ Dropping export item "${item.name}": ${source} not found`)
+        continue
+      }
+
+      exportItems.push({
+        id: item.id,
+        name: item.name,
+        preset,
+        stackId: stack?.id,
+        presetIds: stack ? undefined : presetIds,
+        format: item.format === "jpg" ? "jpg" : "png",
+        quality: typeof item.quality === "number" ? item.quality : 90,
+        enabled: item.enabled !== false,
+      })
+    }
+
+    return { selectedLayerId, zoom, panX, panY, exportItems }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,152 @@
+import type { Layer, LayerFolder, LayerPreset, ProjectFile, ProjectFolder, ProjectLayer } from "@/types/project"
+import { ProjectLoader } from "./project-loader"
+
+// What the user picked in the import preview
+export interface MergeSelection {
+  layerIds: string[]
+  presetIds: string[]
+}
+
+// The incoming part of a merge, ready to append to the open project
+export interface PreparedMerge {
+  layers: ProjectLayer[]
+  folders: ProjectFolder[]
+  presets: LayerPreset[]
+  renamedIds: number
+}
+
+interface MergeTarget {
+  layers: Layer[]
+  folders: LayerFolder[]
+  presets: LayerPreset[]
+}
+
+// Brings layers and presets from another project into the open one. Incoming
+// ids that are already taken get a numeric suffix, layers are stacked above the
+// current ones in their original order, and presets follow the renamed ids.
+export class ProjectMerge {
+  static prepare(incoming: ProjectFile, selection: MergeSelection, target: MergeTarget): PreparedMerge {
+    const selectedLayerIds = new Set(selection.layerIds)
+    const selectedPresetIds = new Set(selection.presetIds)
+    const folders = ProjectLoader.normalizeProjectFolders(incoming.folders)
+    const layers = ProjectLoader.normalizeProjectLayers(incoming.layers, incoming.canvas, folders).filter((layer) =>
+        selectedLayerIds.has(layer.id),
+    )
+
+    // Only the folders that hold a selected layer come along, with their parents
+    const folderById = new Map(folders.map((folder) => [folder.id, folder]))
+    const neededFolderIds = new Set<string>()
+    for (const layer of layers) {
+      let folderId = layer.parent_id ?? null
+      while (folderId && !neededFolderIds.has(folderId)) {
+        neededFolderIds.add(folderId)
+        folderId = folderById.get(folderId)?.parent_id ?? null
+      }
+    }
+
+    let renamedIds = 0
+    const usedIds = new Set([...target.layers.map((layer) => layer.id), ...target.folders.map((folder) => folder.id)])
+    const claimId = (id: string, used: Set<string>) => {
+      let newId = id
+      for (let suffix = 2; used.has(newId); suffix++) {
+        newId = `${id}-${suffix}`
+      }
+      if (newId !== id) renamedIds++
+      used.add(newId)
+      return newId
+    }
+
+    const folderIdMap = new Map<string, string>()
+    folders
+        .filter((folder) => neededFolderIds.has(folder.id))
+        .forEach((folder) => folderIdMap.set(folder.id, claimId(folder.id, usedIds)))
+
+    const layerIdMap = new Map<string, string>()
+    layers.forEach((layer) => layerIdMap.set(layer.id, claimId(layer.id, usedIds)))
+
+    const zBase = target.layers.length > 0 ? Math.max(...target.layers.map((layer) => layer.zIndex)) + 1 : 0
+    const mergedLayers = layers.map((layer, index) => ({
+      ...layer,
+      id: layerIdMap.get(layer.id)!,
+      parent_id: layer.parent_id ? folderIdMap.get(layer.parent_id) ?? null : null,
+      z_index: zBase + index,
+    }))
+
+    const mergedFolders = folders
+        .filter((folder) => folderIdMap.has(folder.id))
+        .map((folder) => ({
+          ...folder,
+          id: folderIdMap.get(folder.id)!,
+          parent_id: folder.parent_id ? folderIdMap.get(folder.parent_id) ?? null : null,
+        }))
+
+    const usedPresetIds = new Set(target.presets.map((preset) => preset.id))
+    const mergedPresets = incoming.presets
+        .filter((preset) => selectedPresetIds.has(preset.id))
+        .map((preset) => {
+          const merged: LayerPreset = {
+            ...preset,
+            id: claimId(preset.id, usedPresetIds),
+            layer_states: this.remapKeys(preset.layer_states, layerIdMap),
+            folder_states: preset.folder_states ? this.remapKeys(preset.folder_states, folderIdMap) : undefined,
+            layer_properties: preset.layer_properties ? this.remapKeys(preset.layer_properties, layerIdMap) : undefined,
+            mask_states: preset.mask_states ? this.remapKeys(preset.mask_states, layerIdMap) : undefined,
+          }
+          return merged
+        })
+
+    console.log("🔀 Prepared project merge:", {
+      layers: mergedLayers.length,
+      folders: mergedFolders.length,
+      presets: mergedPresets.length,
+      renamedIds,
+    })
+    return { layers: mergedLayers, folders: mergedFolders, presets: mergedPresets, renamedIds }
+  }
+
+  // Gives incoming assets paths that don't clash with the ones already in use
+  static renameAssetPaths(assetPaths: string[], usedPaths: Set<string>): Map<string, string> {
+    const renamed = new Map<string, string>()
+    const used = new Set(usedPaths)
+
+    for (const assetPath of assetPaths) {
+      if (renamed.has(assetPath)) continue
+
+      let newPath = assetPath
+      const match = assetPath.match(/^(.*?)(\.[^./]+)?$/)
+      for (let suffix = 2; used.has(newPath); suffix++) {
+        newPath = `${match?.[1] ?? assetPath}_${suffix}${match?.[2] ?? ""}`
+      }
+      used.add(newPath)
+      renamed.set(assetPath, newPath)
+    }
+
+    return renamed
+  }
+
+  // Path of `target` as seen from `fromDir`. Both are absolute; on a different
+  // drive there is no relative path and `target` is returned unchanged.
+  static relativePath(fromDir: string, target: string): string {
+    const fromParts = fromDir.replace(/\\/g, "/").split("/").filter(Boolean)
+    const targetParts = target.replace(/\\/g, "/").split("/").filter(Boolean)
+    if (fromParts[0] !== targetParts[0]) {
+      return target
+    }
+
+    let common = 0
+    while (common < fromParts.length && fromParts[common] === targetParts[common]) {
+      common++
+    }
+    return [...fromParts.slice(common).map(() => ".."), ...targetParts.slice(common)].join("/")
+  }
+
+  // States for layers or folders that weren't imported are dropped
+  private static remapKeys<T>(states: Record<string, T>, idMap: Map<string, string>): Record<string, T> {
+    const remapped: Record<string, T> = {}
+    for (const [id, value] of Object.entries(states)) {
+      const newId = idMap.get(id)
+      if (newId) remapped[newId] = value
+    }
+    return remapped
+  }
+}
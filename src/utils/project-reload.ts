@@ -0,0 +1,86 @@
+import type { Layer, LayerFolder } from "@/types/project"
+
+export interface ReloadSummary {
+  added: string[] // Layer names
+  removed: string[]
+  changed: string[]
+}
+
+// Merges a re-extracted project into the open one. Structure and artwork come
+// from disk; the user's working state (visibility, mask toggles, folder
+// expansion) is kept for layers and folders that still exist.
+export class ProjectReload {
+  static mergeLayers(
+      current: Layer[],
+      incoming: Layer[],
+      changedAssetIds: Set<string>,
+  ): { layers: Layer[]; summary: ReloadSummary } {
+    const currentById = new Map(current.map((layer) => [layer.id, layer]))
+    const incomingIds = new Set(incoming.map((layer) => layer.id))
+    const summary: ReloadSummary = { added: [], removed: [], changed: [] }
+
+    const layers = incoming.map((layer) => {
+      const existing = currentById.get(layer.id)
+      if (!existing) {
+        summary.added.push(layer.name)
+        return layer
+      }
+
+      if (changedAssetIds.has(layer.id) || this.hasLayerChanged(existing, layer)) {
+        summary.changed.push(layer.name)
+      }
+      // Unchanged images keep their URL so they aren't decoded again
+      const assetChanged = changedAssetIds.has(layer.id)
+      return {
+        ...layer,
+        src: assetChanged || existing.file_path !== layer.file_path ? layer.src : existing.src,
+        maskSrc: assetChanged || existing.mask_path !== layer.mask_path ? layer.maskSrc : existing.maskSrc,
+        assetStatus: assetChanged || existing.file_path !== layer.file_path ? layer.assetStatus : existing.assetStatus,
+        isVisible: existing.isVisible,
+        maskEnabled: existing.maskEnabled,
+      }
+    })
+
+    summary.removed = current.filter((layer) => !incomingIds.has(layer.id)).map((layer) => layer.name)
+    return { layers, summary }
+  }
+
+  static mergeFolders(current: LayerFolder[], incoming: LayerFolder[]): LayerFolder[] {
+    const currentById = new Map(current.map((folder) => [folder.id, folder]))
+    return incoming.map((folder) => {
+      const existing = currentById.get(folder.id)
+      return existing ? { ...folder, isVisible: existing.isVisible, isExpanded: existing.isExpanded } : folder
+    })
+  }
+
+  static isEmpty(summary: ReloadSummary): boolean {
+    return summary.added.length + summary.removed.length + summary.changed.length === 0
+  }
+
+  static describe(summary: ReloadSummary): string[] {
+    const list = (names: string[]) => (names.length > 3 ? `${names.slice(0, 3).join(", ")} and ${names.length - 3} more` : names.join(", "))
+    return [
+      summary.added.length > 0 ? `Added ${summary.added.length}: ${list(summary.added)}` : "",
+      summary.removed.length > 0 ? `Removed ${summary.removed.length}: ${list(summary.removed)}` : "",
+      summary.changed.length > 0 ? `Changed ${summary.changed.length}: ${list(summary.changed)}` : "",
+    ].filter(Boolean)
+  }
+
+  private static hasLayerChanged(a: Layer, b: Layer): boolean {
+    return (
+        a.name !== b.name ||
+        a.file_path !== b.file_path ||
+        a.mask_path !== b.mask_path ||
+        a.width !== b.width ||
+        a.height !== b.height ||
+        a.x !== b.x ||
+        a.y !== b.y ||
+        a.placement !== b.placement ||
+        a.zIndex !== b.zIndex ||
+        (a.parentId ?? null) !== (b.parentId ?? null) ||
+        a.opacity !== b.opacity ||
+        a.blendMode !== b.blendMode ||
+        a.clipping !== b.clipping
+    )
+  }
+}
@@ -0,0 +1,426 @@
+import type { ProjectFile } from "@/types/project"
+
+// Raw JSON as read from disk, before it has been checked against any schema
+type RawProject = Record<string, unknown>
+
+interface SchemaVersion {
+  version: string
+  // Returns a list of problems; empty when the data matches this version's shape
+  validate: (data: RawProject) => string[]
+}
+
+interface Migration {
+  from: string
+  to: string
+  description: string
+  migrate: (data: RawProject) => RawProject
+}
+
+export const CURRENT_PROJECT_VERSION = "1.11"
+
+const isObject = (value: unknown): value is RawProject =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+
+const validateCanvas = (data: RawProject): string[] => {
+  const canvas = data.canvas
+  if (!isObject(canvas) || typeof canvas.width !== "number" || typeof canvas.height !== "number") {
+    return ["Missing or invalid canvas dimensions"]
+  }
+
+  if (canvas.width <= 0 || canvas.height <= 0) {
+    return ["Canvas dimensions must be positive"]
+  }
+
+  if (canvas.width > 50000 || canvas.height > 50000) {
+    return ["Canvas dimensions are too large (max 50000px)"]
+  }
+
+  return []
+}
+
+const validatePresets = (data: RawProject): string[] => {
+  if (!Array.isArray(data.presets)) {
+    return ["Missing or invalid presets array"]
+  }
+
+  return data.presets.flatMap((preset, index) =>
+      !isObject(preset) || typeof preset.id !== "string" || !isObject(preset.layer_states)
+          ? [`Preset ${index + 1} is missing an id or layer_states`]
+          : [],
+  )
+}
+
+const validateLayers = (data: RawProject): string[] => {
+  if (!Array.isArray(data.layers)) {
+    return ["Missing or invalid layers array"]
+  }
+
+  return data.layers.flatMap((layer, index) =>
+      isObject(layer) ? [] : [`Layer ${index + 1} is not an object`],
+  )
+}
+
+const validateFolders = (data: RawProject): string[] => {
+  if (!Array.isArray(data.folders)) {
+    return ["Missing or invalid folders array"]
+  }
+
+  return data.folders.flatMap((folder, index) =>
+      !isObject(folder) || typeof folder.id !== "string" ? [`Folder ${index + 1} is missing an id`] : [],
+  )
+}
+
+const validatePresetStacks = (data: RawProject): string[] => {
+  if (!Array.isArray(data.preset_stacks)) {
+    return ["Missing or invalid preset_stacks array"]
+  }
+
+  return data.preset_stacks.flatMap((stack, index) =>
+      !isObject(stack) || typeof stack.id !== "string" || !Array.isArray(stack.preset_ids)
+          ? [`Preset stack ${index + 1} is missing an id or preset_ids`]
+          : [],
+  )
+}
+
+const validateExclusiveGroups = (data: RawProject): string[] => {
+  if (!Array.isArray(data.exclusive_groups)) {
+    return ["Missing or invalid exclusive_groups array"]
+  }
+
+  return data.exclusive_groups.flatMap((group, index) =>
+      !isObject(group) || typeof group.id !== "string" || !Array.isArray(group.layer_ids)
+          ? [`Exclusive group ${index + 1} is missing an id or layer_ids`]
+          : [],
+  )
+}
+
+const validateLayerRules = (data: RawProject): string[] => {
+  if (!Array.isArray(data.layer_rules)) {
+    return ["Missing or invalid layer_rules array"]
+  }
+
+  return data.layer_rules.flatMap((rule, index) =>
+      !isObject(rule) ||
+      typeof rule.id !== "string" ||
+      !["requires", "excludes", "implies"].includes(rule.kind as string) ||
+      typeof rule.source_id !== "string" ||
+      typeof rule.target_id !== "string"
+          ? [`Layer rule ${index + 1} is missing an id, kind, source_id or target_id`]
+          : [],
+  )
+}
+
+const validatePresetThumbnails = (data: RawProject): string[] => {
+  if (data.preset_thumbnails === undefined) {
+    return []
+  }
+  if (!isObject(data.preset_thumbnails) || Object.values(data.preset_thumbnails).some((value) => typeof value !== "string")) {
+    return ["Invalid preset_thumbnails"]
+  }
+  return []
+}
+
+const validateV1_1 = (data: RawProject): string[] => {
+  const errors = [...validateCanvas(data), ...validateLayers(data), ...validatePresets(data)]
+  if (data.session !== undefined && !isObject(data.session)) {
+    errors.push("Invalid session")
+  }
+  return errors
+}
+
+// Schema history, oldest first. Each entry describes the shape written by that version.
+const SCHEMA_VERSIONS: SchemaVersion[] = [
+  {
+    // Original extractor output. Presets written by early builds of this app used
+    // camelCase `layerStates` / `createdAt` instead of `layer_states` / `created_at`.
+    version: "1.0",
+    validate: (data) => {
+      const errors = [...validateCanvas(data), ...validateLayers(data)]
+      if (data.presets !== undefined && !Array.isArray(data.presets)) {
+        errors.push("Invalid presets array")
+      }
+      return errors
+    },
+  },
+  {
+    // Presets always use `layer_states` / `created_at`; optional saved session
+    version: "1.1",
+    validate: (data) => validateV1_1(data),
+  },
+  {
+    // Layer folders: `folders` list, `parent_id` on layers and folders, optional preset `folder_states`
+    version: "1.2",
+    validate: (data) => [...validateV1_1(data), ...validateFolders(data)],
+  },
+  {
+    // Layer placement: `x` / `y` document offsets and a `placement` mode on every layer
+    version: "1.3",
+    validate: (data) => [...validateV1_1(data), ...validateFolders(data)],
+  },
+  {
+    // Layer appearance: `opacity` and `blend_mode`; presets may capture them in `layer_properties`
+    version: "1.4",
+    validate: (data) => [...validateV1_1(data), ...validateFolders(data)],
+  },
+  {
+    // Clipping to the layer below: `clipping` flag on every layer
+    version: "1.5",
+    validate: (data) => [...validateV1_1(data), ...validateFolders(data)],
+  },
+  {
+    // Layer masks: optional `mask_path` and `mask_enabled` on layers; presets may record `mask_states`
+    version: "1.6",
+    validate: (data) => [...validateV1_1(data), ...validateFolders(data)],
+  },
+  {
+    // Preset stacks: `preset_stacks` list of ordered preset ids; export queue entries may use `stack_id`
+    version: "1.7",
+    validate: (data) => [...validateV1_1(data), ...validateFolders(data), ...validatePresetStacks(data)],
+  },
+  {
+    // Exclusive groups: `exclusive_groups` of layers or folder children where only one may be visible
+    version: "1.8",
+    validate: (data) => [
+      ...validateV1_1(data),
+      ...validateFolders(data),
+      ...validatePresetStacks(data),
+      ...validateExclusiveGroups(data),
+    ],
+  },
+  {
+    // Layer rules: `layer_rules` of requires / excludes / implies between layers or folders
+    version: "1.9",
+    validate: (data) => [
+      ...validateV1_1(data),
+      ...validateFolders(data),
+      ...validatePresetStacks(data),
+      ...validateExclusiveGroups(data),
+      ...validateLayerRules(data),
+    ],
+  },
+  {
+    // Preset thumbnails: optional `preset_thumbnails` of PNG data URLs by preset id
+    version: "1.10",
+    validate: (data) => [
+      ...validateV1_1(data),
+      ...validateFolders(data),
+      ...validatePresetStacks(data),
+      ...validateExclusiveGroups(data),
+      ...validateLayerRules(data),
+      ...validatePresetThumbnails(data),
+    ],
+  },
+  {
+    // Partial presets: optional `is_partial` on presets that record only some layers on purpose
+    version: "1.11",
+    validate: (data) => [
+      ...validateV1_1(data),
+      ...validateFolders(data),
+      ...validatePresetStacks(data),
+      ...validateExclusiveGroups(data),
+      ...validateLayerRules(data),
+      ...validatePresetThumbnails(data),
+    ],
+  },
+]
+
+const MIGRATIONS: Migration[] = [
+  {
+    from: "1.0",
+    to: "1.1",
+    description: "Normalize preset field names",
+    migrate: (data) => ({
+      ...data,
+      presets: (Array.isArray(data.presets) ? data.presets : []).filter(isObject).map((preset) => ({
+        id: preset.id,
+        name: preset.name,
+        layer_states: preset.layer_states ?? preset.layerStates ?? {},
+        created_at: preset.created_at ?? preset.createdAt ?? new Date().toISOString(),
+      })),
+    }),
+  },
+  {
+    from: "1.1",
+    to: "1.2",
+    description: "Add layer folders",
+    migrate: (data) => ({
+      ...data,
+      folders: Array.isArray(data.folders) ? data.folders : [],
+    }),
+  },
+  {
+    from: "1.2",
+    to: "1.3",
+    // Layers without offsets were always scaled to fit and centered; keep them that way
+    description: "Add layer offsets and placement mode",
+    migrate: (data) => ({
+      ...data,
+      layers: (data.layers as RawProject[]).map((layer) => {
+        const hasOffset = typeof layer.x === "number" || typeof layer.y === "number"
+        return {
+          ...layer,
+          x: typeof layer.x === "number" ? layer.x : 0,
+          y: typeof layer.y === "number" ? layer.y : 0,
+          placement: layer.placement ?? (hasOffset ? "absolute" : "fit"),
+        }
+      }),
+    }),
+  },
+  {
+    from: "1.3",
+    to: "1.4",
+    description: "Add layer opacity and blend mode",
+    migrate: (data) => ({
+      ...data,
+      layers: (data.layers as RawProject[]).map((layer) => ({
+        ...layer,
+        opacity: typeof layer.opacity === "number" ? layer.opacity : 1,
+        blend_mode: layer.blend_mode ?? "normal",
+      })),
+    }),
+  },
+  {
+    from: "1.4",
+    to: "1.5",
+    description: "Add clipping flag",
+    migrate: (data) => ({
+      ...data,
+      layers: (data.layers as RawProject[]).map((layer) => ({
+        ...layer,
+        clipping: layer.clipping === true,
+      })),
+    }),
+  },
+  {
+    from: "1.5",
+    to: "1.6",
+    description: "Add layer masks",
+    migrate: (data) => ({
+      ...data,
+      layers: (data.layers as RawProject[]).map((layer) => ({
+        ...layer,
+        mask_path: typeof layer.mask_path === "string" && layer.mask_path ? layer.mask_path : null,
+        mask_enabled: layer.mask_enabled !== false,
+      })),
+    }),
+  },
+  {
+    from: "1.6",
+    to: "1.7",
+    description: "Add preset stacks",
+    migrate: (data) => ({
+      ...data,
+      preset_stacks: Array.isArray(data.preset_stacks) ? data.preset_stacks : [],
+    }),
+  },
+  {
+    from: "1.7",
+    to: "1.8",
+    description: "Add exclusive groups",
+    migrate: (data) => ({
+      ...data,
+      exclusive_groups: Array.isArray(data.exclusive_groups) ? data.exclusive_groups : [],
+    }),
+  },
+  {
+    from: "1.8",
+    to: "1.9",
+    description: "Add layer rules",
+    migrate: (data) => ({
+      ...data,
+      layer_rules: Array.isArray(data.layer_rules) ? data.layer_rules : [],
+    }),
+  },
+  {
+    from: "1.9",
+    to: "1.10",
+    description: "Allow saved preset thumbnails",
+    migrate: (data) => data,
+  },
+  {
+    from: "1.10",
+    to: "1.11",
+    description: "Mark partial presets",
+    // Older files didn't record it; a preset that misses a layer of the file was saved partial
+    migrate: (data) => {
+      const layerIds = (data.layers as unknown[]).filter(isObject).map((layer) => layer.id)
+      return {
+        ...data,
+        presets: (data.presets as unknown[]).map((preset) =>
+            isObject(preset) && isObject(preset.layer_states)
+                ? { ...preset, is_partial: layerIds.some((id) => (preset.layer_states as RawProject)[id as string] === undefined) }
+                : preset,
+        ),
+      }
+    },
+  },
+]
+
+export class ProjectSchema {
+  static parseVersion(version: string): [number, number] {
+    const match = /^(\d+)\.(\d+)$/.exec(version.trim())
+    if (!match) {
+      throw new Error(`Invalid version "${version}"`)
+    }
+    return [Number(match[1]), Number(match[2])]
+  }
+
+  static compareVersions(a: string, b: string): number {
+    const [aMajor, aMinor] = this.parseVersion(a)
+    const [bMajor, bMinor] = this.parseVersion(b)
+    return aMajor !== bMajor ? aMajor - bMajor : aMinor - bMinor
+  }
+
+  static validate(data: RawProject, version: string): string[] {
+    const schema = SCHEMA_VERSIONS.find((entry) => entry.version === version)
+    if (!schema) {
+      return [`Unknown project version "${version}"`]
+    }
+    return schema.validate(data)
+  }
+
+  // Checks the file against the schema of its own version, then upgrades it one
+  // migration at a time until it matches the current schema
+  static migrate(raw: unknown): ProjectFile {
+    if (!isObject(raw)) {
+      throw new Error("Project file is not a JSON object")
+    }
+
+    if (raw.version === undefined || raw.version === null || raw.version === "") {
+      throw new Error("Missing version field")
+    }
+
+    let version = String(raw.version)
+    this.parseVersion(version)
+
+    if (this.compareVersions(version, CURRENT_PROJECT_VERSION) > 0) {
+      throw new Error(
+          `This project was saved in format ${version}, but this version of the app only supports up to ${CURRENT_PROJECT_VERSION}. Please update the app to open it.`,
+      )
+    }
+
+    const initialErrors = this.validate(raw, version)
+    if (initialErrors.length > 0) {
+      throw new Error(initialErrors.join("; "))
+    }
+
+    let data: RawProject = raw
+    while (version !== CURRENT_PROJECT_VERSION) {
+      const migration = MIGRATIONS.find((entry) => entry.from === version)
+      if (!migration) {
+        throw new Error(`No migration available from project version ${version}`)
+      }
+
+      console.log(`🔧 Migrating project ${migration.from} -> ${migration.to}: ${migration.description}`)
+      data = { ...migration.migrate(data), version: migration.to }
+      version = migration.to
+    }
+
+    const errors = this.validate(data, CURRENT_PROJECT_VERSION)
+    if (errors.length > 0) {
+      throw new Error(errors.join("; "))
+    }
+
+    return data as unknown as ProjectFile
+  }
+}
@@ -0,0 +1,226 @@
+import type { ProjectFile } from "@/types/project"
+import type { ProjectDiagnostic } from "@/types/diagnostics"
+import { BLEND_MODES } from "./compositor"
+
+export class ProjectValidator {
+  static validate(project: ProjectFile): ProjectDiagnostic[] {
+    const diagnostics: ProjectDiagnostic[] = []
+    const layerIds = new Set<string>()
+    const seenIds = new Map<string, number>()
+    const seenZIndexes = new Map<number, number>()
+
+    project.layers.forEach((layer, layerIndex) => {
+      const at = { layerId: layer.id || undefined, layerIndex }
+
+      if (!layer.id) {
+        diagnostics.push({ severity: "warning", message: "Layer has no id; a generated id will be used", field: "id", ...at })
+      } else if (seenIds.has(layer.id)) {
+        diagnostics.push({
+          severity: "error",
+          message: `Duplicate layer id (also used by layer ${seenIds.get(layer.id)! + 1})`,
+          field: "id",
+          ...at,
+        })
+      } else {
+        seenIds.set(layer.id, layerIndex)
+        layerIds.add(layer.id)
+      }
+
+      if (!layer.name) {
+        diagnostics.push({ severity: "warning", message: "Layer has no name", field: "name", ...at })
+      }
+
+      if (!layer.file_path) {
+        diagnostics.push({ severity: "warning", message: "Layer has no file_path; a placeholder will be shown", field: "file_path", ...at })
+      }
+
+      if (typeof layer.width !== "number" || layer.width <= 0) {
+        diagnostics.push({ severity: "warning", message: `Invalid width (${layer.width}); canvas width will be used`, field: "width", ...at })
+      }
+
+      if (typeof layer.height !== "number" || layer.height <= 0) {
+        diagnostics.push({ severity: "warning", message: `Invalid height (${layer.height}); canvas height will be used`, field: "height", ...at })
+      }
+
+      if (typeof layer.is_visible !== "boolean") {
+        diagnostics.push({ severity: "warning", message: "is_visible is not a boolean; layer will be visible", field: "is_visible", ...at })
+      }
+
+      for (const field of ["x", "y"] as const) {
+        if (layer[field] !== undefined && typeof layer[field] !== "number") {
+          diagnostics.push({ severity: "warning", message: `Invalid ${field} offset (${layer[field]}); 0 will be used`, field, ...at })
+        }
+      }
+
+      if (layer.placement !== undefined && !["absolute", "fit", "stretch"].includes(layer.placement)) {
+        diagnostics.push({ severity: "warning", message: `Unknown placement "${layer.placement}"`, field: "placement", ...at })
+      }
+
+      if (
+          layer.placement === "absolute" &&
+          typeof layer.x === "number" &&
+          typeof layer.y === "number" &&
+          (layer.x >= project.canvas.width ||
+              layer.y >= project.canvas.height ||
+              layer.x + layer.width <= 0 ||
+              layer.y + layer.height <= 0)
+      ) {
+        diagnostics.push({ severity: "warning", message: "Layer lies entirely outside the canvas", field: "x", ...at })
+      }
+
+      if (layer.opacity !== undefined && (typeof layer.opacity !== "number" || layer.opacity < 0 || layer.opacity > 1)) {
+        diagnostics.push({ severity: "warning", message: `Opacity ${layer.opacity} is outside 0..1; it will be clamped`, field: "opacity", ...at })
+      }
+
+      if (layer.blend_mode !== undefined && !BLEND_MODES.includes(layer.blend_mode)) {
+        diagnostics.push({ severity: "warning", message: `Unknown blend mode "${layer.blend_mode}"; normal will be used`, field: "blend_mode", ...at })
+      }
+
+      if (layer.mask_path !== undefined && layer.mask_path !== null && typeof layer.mask_path !== "string") {
+        diagnostics.push({ severity: "warning", message: "mask_path is not a string; the mask will be ignored", field: "mask_path", ...at })
+      }
+
+      if (typeof layer.z_index !== "number") {
+        diagnostics.push({ severity: "warning", message: "z_index is not a number; file order will be used", field: "z_index", ...at })
+      } else if (seenZIndexes.has(layer.z_index)) {
+        diagnostics.push({
+          severity: "warning",
+          message: `Duplicate z_index ${layer.z_index} (also used by layer ${seenZIndexes.get(layer.z_index)! + 1}); stacking order is ambiguous`,
+          field: "z_index",
+          ...at,
+        })
+      } else {
+        seenZIndexes.set(layer.z_index, layerIndex)
+      }
+    })
+
+    const folderIds = new Set<string>()
+    project.folders.forEach((folder) => {
+      if (folderIds.has(folder.id)) {
+        diagnostics.push({ severity: "error", message: `Duplicate folder id "${folder.id}"`, field: "folders" })
+      } else if (layerIds.has(folder.id)) {
+        diagnostics.push({ severity: "error", message: `Folder id "${folder.id}" is also used by a layer`, field: "folders" })
+      }
+      folderIds.add(folder.id)
+    })
+
+    const foldersById = new Map(project.folders.map((folder) => [folder.id, folder]))
+    project.folders.forEach((folder) => {
+      if (folder.parent_id && !folderIds.has(folder.parent_id)) {
+        diagnostics.push({
+          severity: "warning",
+          message: `Folder "${folder.name}" is inside unknown folder ${folder.parent_id}; it will be moved to the top level`,
+          field: "parent_id",
+        })
+        return
+      }
+
+      const visited = new Set([folder.id])
+      let current = folder.parent_id ? foldersById.get(folder.parent_id) : undefined
+      while (current) {
+        if (visited.has(current.id)) {
+          diagnostics.push({
+            severity: "warning",
+            message: `Folder "${folder.name}" is part of a parent cycle; it will be moved to the top level`,
+            field: "parent_id",
+          })
+          break
+        }
+        visited.add(current.id)
+        current = current.parent_id ? foldersById.get(current.parent_id) : undefined
+      }
+    })
+
+    project.layers.forEach((layer, layerIndex) => {
+      if (layer.parent_id && !folderIds.has(layer.parent_id)) {
+        diagnostics.push({
+          severity: "warning",
+          message: `Layer is inside unknown folder ${layer.parent_id}; it will be moved to the top level`,
+          field: "parent_id",
+          layerId: layer.id || undefined,
+          layerIndex,
+        })
+      }
+    })
+
+    const presetIds = new Set<string>()
+    project.presets.forEach((preset) => {
+      if (presetIds.has(preset.id)) {
+        diagnostics.push({ severity: "error", message: `Duplicate preset id in "${preset.name}"`, field: "id", presetId: preset.id })
+      }
+      presetIds.add(preset.id)
+
+      const unknownIds = Object.keys(preset.layer_states).filter((layerId) => !layerIds.has(layerId))
+      if (unknownIds.length > 0) {
+        diagnostics.push({
+          severity: "warning",
+          message: `Preset "${preset.name}" refers to ${unknownIds.length} unknown layer(s): ${unknownIds.join(", ")}`,
+          field: "layer_states",
+          presetId: preset.id,
+        })
+      }
+
+      const unknownFolderIds = Object.keys(preset.folder_states ?? {}).filter((folderId) => !folderIds.has(folderId))
+      if (unknownFolderIds.length > 0) {
+        diagnostics.push({
+          severity: "warning",
+          message: `Preset "${preset.name}" refers to ${unknownFolderIds.length} unknown folder(s): ${unknownFolderIds.join(", ")}`,
+          field: "folder_states",
+          presetId: preset.id,
+        })
+      }
+    })
+
+    project.preset_stacks.forEach((stack) => {
+      const unknownPresetIds = stack.preset_ids.filter((presetId) => !presetIds.has(presetId))
+      if (unknownPresetIds.length > 0) {
+        diagnostics.push({
+          severity: "warning",
+          message: `Preset stack "${stack.name}" refers to ${unknownPresetIds.length} unknown preset(s): ${unknownPresetIds.join(", ")}`,
+          field: "preset_ids",
+        })
+      }
+    })
+
+    project.exclusive_groups.forEach((group) => {
+      if (group.folder_id && !folderIds.has(group.folder_id)) {
+        diagnostics.push({
+          severity: "warning",
+          message: `Exclusive group "${group.name}" refers to unknown folder ${group.folder_id}`,
+          field: "folder_id",
+        })
+      }
+
+      const unknownLayerIds = group.layer_ids.filter((layerId) => !layerIds.has(layerId))
+      if (unknownLayerIds.length > 0) {
+        diagnostics.push({
+          severity: "warning",
+          message: `Exclusive group "${group.name}" refers to ${unknownLayerIds.length} unknown layer(s): ${unknownLayerIds.join(", ")}`,
+          field: "layer_ids",
+        })
+      }
+    })
+
+    project.layer_rules.forEach((rule) => {
+      const unknownIds = [rule.source_id, rule.target_id].filter((id) => !layerIds.has(id) && !folderIds.has(id))
+      if (unknownIds.length > 0) {
+        diagnostics.push({
+          severity: "warning",
+          message: `Layer rule ${rule.id} (${rule.kind}) refers to unknown layer or folder: ${unknownIds.join(", ")}`,
+          field: "layer_rules",
+        })
+      }
+    })
+
+    console.log("🩺 Project validation:", {
+      errors: diagnostics.filter((d) => d.severity === "error").length,
+      warnings: diagnostics.filter((d) => d.severity === "warning").length,
+    })
+
+    return diagnostics
+  }
+
+  static hasErrors(diagnostics: ProjectDiagnostic[]): boolean {
+    return diagnostics.some((diagnostic) => diagnostic.severity === "error")
+  }
+}
@@ -0,0 +1,197 @@
+import { readPsd } from "ag-psd"
+import type { Layer as PsdLayer, BlendMode as PsdBlendMode } from "ag-psd"
+import type { BlendMode, ImportedProject, ProjectFolder, ProjectLayer } from "@/types/project"
+import type { ProjectDiagnostic } from "@/types/diagnostics"
+import { CURRENT_PROJECT_VERSION } from "./project-schema"
+
+// PSD blend modes that have a direct equivalent in the compositor
+const PSD_BLEND_MODES: Partial<Record<PsdBlendMode, BlendMode>> = {
+  normal: "normal",
+  "pass through": "normal",
+  multiply: "multiply",
+  screen: "screen",
+  overlay: "overlay",
+  "linear dodge": "add",
+  darken: "darken",
+  lighten: "lighten",
+  "color dodge": "color-dodge",
+  "color burn": "color-burn",
+  "hard light": "hard-light",
+  "soft light": "soft-light",
+  difference: "difference",
+  exclusion: "exclusion",
+  hue: "hue",
+  saturation: "saturation",
+  color: "color",
+  luminosity: "luminosity",
+}
+
+export class PsdImporter {
+  static isPsdFile(name: string): boolean {
+    return /\.psd$/i.test(name)
+  }
+
+  // Reads layer records and pixel data; each layer image becomes a PNG asset
+  // under assets/ and groups become folders
+  static async importPsd(data: ArrayBuffer | Uint8Array, fileName: string): Promise<ImportedProject> {
+    console.log("📥 Importing PSD:", fileName, `${data.byteLength} bytes`)
+    const psd = readPsd(data, { skipCompositeImageData: true, skipThumbnail: true, skipLinkedFilesData: true })
+
+    const layers: ProjectLayer[] = []
+    const folders: ProjectFolder[] = []
+    const assets = new Map<string, Blob>()
+    const diagnostics: ProjectDiagnostic[] = []
+    const usedPaths = new Set<string>()
+    let counter = 0
+
+    const assetPath = (name: string, suffix = "") => {
+      const base = name.replace(/[^a-zA-Z0-9_-]+/g, "_").replace(/^_+|_+$/g, "") || "layer"
+      let candidate = `assets/${base}${suffix}.png`
+      for (let i = 2; usedPaths.has(candidate); i++) {
+        candidate = `assets/${base}_${i}${suffix}.png`
+      }
+      usedPaths.add(candidate)
+      return candidate
+    }
+
+    // ag-psd lists children bottom first, which is also our z order
+    const walk = async (children: PsdLayer[], parentId: string | null) => {
+      for (const psdLayer of children) {
+        counter++
+        const name = psdLayer.name || `Layer ${counter}`
+
+        if (psdLayer.children) {
+          const id = psdLayer.id !== undefined ? `psd-folder-${psdLayer.id}` : `psd-folder-${counter}`
+          folders.push({
+            id,
+            name,
+            parent_id: parentId,
+            is_visible: !psdLayer.hidden,
+            is_expanded: psdLayer.opened !== false,
+          })
+
+          if ((psdLayer.opacity ?? 1) < 1 || (psdLayer.blendMode && psdLayer.blendMode !== "pass through")) {
+            diagnostics.push({
+              severity: "warning",
+              message: `Folder "${name}" has its own opacity or blend mode, which folders don't support; it was ignored`,
+              field: "folders",
+            })
+          }
+
+          await walk(psdLayer.children, id)
+          continue
+        }
+
+        const id = psdLayer.id !== undefined ? `psd-layer-${psdLayer.id}` : `psd-layer-${counter}`
+        const left = psdLayer.left ?? 0
+        const top = psdLayer.top ?? 0
+        const width = (psdLayer.right ?? 0) - left
+        const height = (psdLayer.bottom ?? 0) - top
+
+        if (!psdLayer.canvas || width <= 0 || height <= 0) {
+          diagnostics.push({
+            severity: "warning",
+            message: `Layer "${name}" has no pixel data (empty, adjustment or fill layer) and was skipped`,
+            layerId: id,
+          })
+          continue
+        }
+
+        const blendMode = psdLayer.blendMode ? PSD_BLEND_MODES[psdLayer.blendMode] : "normal"
+        if (!blendMode) {
+          diagnostics.push({
+            severity: "warning",
+            message: `Layer "${name}" uses blend mode "${psdLayer.blendMode}", which is not supported; normal will be used`,
+            field: "blend_mode",
+            layerId: id,
+          })
+        }
+
+        const filePath = assetPath(name)
+        assets.set(filePath, await this.canvasToBlob(psdLayer.canvas))
+
+        const layer: ProjectLayer = {
+          id,
+          name,
+          file_path: filePath,
+          width,
+          height,
+          is_visible: !psdLayer.hidden,
+          z_index: layers.length,
+          parent_id: parentId,
+          x: left,
+          y: top,
+          placement: "absolute",
+          opacity: psdLayer.opacity ?? 1,
+          blend_mode: blendMode ?? "normal",
+          clipping: psdLayer.clipping === true,
+          mask_path: null,
+          mask_enabled: true,
+        }
+
+        const mask = psdLayer.mask
+        if (mask?.canvas) {
+          const maskPath = assetPath(name, "_mask")
+          assets.set(maskPath, await this.canvasToBlob(this.renderMask(mask.canvas, mask, left, top, width, height)))
+          layer.mask_path = maskPath
+          layer.mask_enabled = !mask.disabled
+        }
+
+        layers.push(layer)
+      }
+    }
+
+    await walk(psd.children ?? [], null)
+
+    console.log("✅ PSD imported:", { layers: layers.length, folders: folders.length, assets: assets.size })
+
+    return {
+      project: {
+        version: CURRENT_PROJECT_VERSION,
+        canvas: { width: psd.width, height: psd.height },
+        layers,
+        folders,
+        presets: [],
+        preset_stacks: [],
+        exclusive_groups: [],
+        layer_rules: [],
+      },
+      assets,
+      diagnostics,
+    }
+  }
+
+  // PSD masks have their own bounds and a fill color outside them; ours are the
+  // same size as the layer
+  private static renderMask(
+      maskCanvas: HTMLCanvasElement,
+      mask: NonNullable<PsdLayer["mask"]>,
+      layerLeft: number,
+      layerTop: number,
+      width: number,
+      height: number,
+  ): HTMLCanvasElement {
+    const canvas = document.createElement("canvas")
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext("2d")
+    if (!ctx) {
+      throw new Error("Could not create canvas context")
+    }
+
+    const fill = mask.defaultColor ?? 0
+    ctx.fillStyle = `rgb(${fill}, ${fill}, ${fill})`
+    ctx.fillRect(0, 0, width, height)
+
+    const offsetX = mask.positionRelativeToLayer ? mask.left ?? 0 : (mask.left ?? 0) - layerLeft
+    const offsetY = mask.positionRelativeToLayer ? mask.top ?? 0 : (mask.top ?? 0) - layerTop
+    ctx.drawImage(maskCanvas, offsetX, offsetY)
+    return canvas
+  }
+
+  private static canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode layer image"))), "image/png")
+    })
+  }
+}
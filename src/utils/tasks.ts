@@ -1,33 +1,140 @@
-import type { LayerPreset } from "@/types/project"
+import type {
+  Layer,
+  LayerFolder,
+  LayerPreset,
+  PresetStack,
+  ExclusiveGroup,
+  LayerRule,
+  ExportItem,
+  SessionState,
+  ProjectFile,
+  PresetLibraryFile,
+  ProjectLayer,
+  ProjectCanvas,
+  ProjectFolder,
+  ImportedProject,
+  AssetStatus,
+} from "@/types/project"
+import type { ProjectDiagnostic } from "@/types/diagnostics"
 import { ProjectLoader } from "./project-loader"
+import { ProjectValidator } from "./project-validator"
+import { LayerTree } from "./layer-tree"
+import { Compositor } from "./compositor"
+import { PsdImporter } from "./psd-importer"
+import { OraFormat } from "./ora-format"
+import { ProjectArchive, PROJECT_ARCHIVE_EXTENSION } from "./project-archive"
+import { ProjectDirectory } from "./project-directory"
+import { AssetStatusChecker } from "./asset-status"
+import type { DirectoryFiles } from "./project-directory"
+import { ProjectReload } from "./project-reload"
+import type { ReloadSummary } from "./project-reload"
+import { ProjectMerge } from "./project-merge"
+import type { MergeSelection, PreparedMerge } from "./project-merge"
+import { PresetLibrary } from "./preset-library"
+import type { NodeMatch, PresetLibraryMapping } from "./preset-library"
 
 // Import Tauri APIs directly
 import { path } from '@tauri-apps/api'
-import {readTextFile, writeTextFile} from '@tauri-apps/plugin-fs';
+import {readTextFile, writeTextFile, readFile, writeFile, mkdir, exists, readDir, watch} from '@tauri-apps/plugin-fs';
+import type { UnwatchFn, WatchEvent } from '@tauri-apps/plugin-fs';
 import {save, open} from '@tauri-apps/plugin-dialog';
 import { convertFileSrc } from '@tauri-apps/api/core'
 
-export interface Layer {
-  id: string
-  name: string
-  src: string
-  file_path: string
-  width: number
-  height: number
-  isVisible: boolean
-  zIndex: number
+export interface LoadedProject {
+  layers: Layer[]
+  folders: LayerFolder[]
+  presets: LayerPreset[]
+  presetStacks: PresetStack[]
+  exclusiveGroups: ExclusiveGroup[]
+  layerRules: LayerRule[]
+  canvasWidth: number
+  canvasHeight: number
+  fileName?: string
+  session?: SessionState
+  presetThumbnails?: Record<string, string> // Saved with the project, shown until they are re-rendered
+}
+
+// Changes picked up from disk while the project is open (Tauri only)
+export interface ReloadedProject {
+  layers: Layer[]
+  folders: LayerFolder[]
+  canvasWidth: number
+  canvasHeight: number
+  summary: ReloadSummary
+}
+
+// Another project about to be merged into the open one
+export interface MergePreview {
+  fileName: string
+  project: ProjectFile
+}
+
+// A preset library matched against the open project, waiting for review
+export interface PresetLibraryPreview {
+  fileName: string
+  library: PresetLibraryFile
+  matches: NodeMatch[]
+}
+
+// Library presets with their entries remapped to the open project's ids
+export interface ImportedPresets {
+  presets: LayerPreset[]
+  fileName: string
+}
+
+// The incoming layers, folders and presets, to be appended to the open project
+export interface MergedProject {
+  layers: Layer[]
+  folders: LayerFolder[]
+  presets: LayerPreset[]
+  fileName: string
 }
 
 export interface TaskContext {
   layers: Layer[]
+  folders: LayerFolder[]
+  presets: LayerPreset[]
+  presetStacks: PresetStack[]
+  exclusiveGroups: ExclusiveGroup[]
+  layerRules: LayerRule[]
+  exportItems: ExportItem[]
+  selectedLayerId: string | null
+  zoom: number
+  panX: number
+  panY: number
   canvasWidth: number
   canvasHeight: number
-  onApplyPreset?: (layerStates: Record<string, boolean>) => void
-  onLoadProject?: (layers: Layer[], presets: LayerPreset[], canvasWidth: number, canvasHeight: number, fileName?: string) => void
+  presetThumbnails?: Record<string, string> // Only set when thumbnails should be saved with the project
+  onLoadProject?: (project: LoadedProject) => void
+  // Shows load problems to the user; resolves true if the project should be opened anyway
+  onReviewProblems?: (fileName: string, diagnostics: ProjectDiagnostic[]) => Promise<boolean>
+  onUpdateLayerAssets?: (updates: LayerAssetUpdate[]) => void
+  onReloadProject?: (reload: ReloadedProject) => void
+  // Lets the user pick what to import; resolves null if cancelled
+  onReviewMerge?: (preview: MergePreview) => Promise<MergeSelection | null>
+  onMergeProject?: (merge: MergedProject) => void
+  // Lets the user fix how library entries map to layers; resolves null if cancelled
+  onReviewPresetLibrary?: (preview: PresetLibraryPreview) => Promise<PresetLibraryMapping | null>
+  onImportPresets?: (imported: ImportedPresets) => void
+}
+
+// New location of a layer's image after relinking
+export interface LayerAssetUpdate {
+  id: string
+  file_path: string
+  src: string
+  assetStatus: AssetStatus
+}
+
+// A file found while relinking: picked in the browser, or a path on disk in Tauri
+interface RelinkCandidate {
+  name: string
+  file?: File
+  absolutePath?: string
 }
 
 export interface ExportTask {
-  type: "quick-export-png" | "quick-export-jpg" | "bulk-export"
+  type: "quick-export-png" | "quick-export-jpg" | "bulk-export" | "export-ora" | "export-presets"
   filename?: string
   quality?: number
   preset?: LayerPreset
@@ -43,11 +150,46 @@ export interface OpenTask {
   file?: File
 }
 
-export type Task = ExportTask | SaveTask | OpenTask
+export interface OpenFolderTask {
+  type: "open-folder"
+  files?: DirectoryFiles // Already collected (e.g. dropped); otherwise a folder picker is shown
+}
+
+export interface ImportTask {
+  type: "import-ora" | "import-project" | "import-presets"
+  file?: File
+}
+
+export interface RelinkTask {
+  type: "relink-folder" | "relink-file"
+  layerIds: string[]
+}
+
+// The watcher debounces per file; an extractor rewrites many files, so changes
+// are collected a little longer and reloaded together
+const RELOAD_DELAY_MS = 400
+// Saving writes the project file and its assets; changes seen right after are our own
+const SAVE_WATCH_GRACE_MS = 2000
+
+const normalizeWatchPath = (value: string): string => value.replace(/\\/g, "/")
+
+export type Task = ExportTask | SaveTask | OpenTask | OpenFolderTask | ImportTask | RelinkTask
 
 export class TaskManager {
   private context: TaskContext
   private currentProjectPath?: string
+  // Images of imported layers that don't exist on disk yet, keyed by file_path
+  private memoryAssets = new Map<string, Blob>()
+  private memoryAssetUrls: string[] = []
+  // How the web build saves: loose JSON, or an archive when the images only exist
+  // in memory (opened from an archive or imported). Tauri goes by the file extension.
+  private saveFormat: "json" | "archive" = "json"
+  // Watching the open Tauri project folder for external changes
+  private unwatchProject?: UnwatchFn
+  private pendingChanges = new Set<string>()
+  private reloadTimer?: ReturnType<typeof setTimeout>
+  private reloadQueue: Promise<void> = Promise.resolve()
+  private ignoreChangesUntil = 0
 
   constructor(context: TaskContext) {
     this.context = context
@@ -69,12 +211,28 @@ export class TaskManager {
         return this.handleQuickExportJPG(task.filename, task.quality)
       case "bulk-export":
         return this.handleBulkExport()
+      case "export-ora":
+        return this.handleExportOra(task.filename)
+      case "export-presets":
+        return this.handleExportPresetLibrary(task.filename)
       case "save":
         return this.handleSave(task.filename)
       case "save-as":
         return this.handleSaveAs(task.filename)
       case "open":
         return this.handleOpen(task.file)
+      case "open-folder":
+        return this.handleOpenFolder(task.files)
+      case "import-ora":
+        return this.handleImportOra(task.file)
+      case "import-project":
+        return this.handleImportProject(task.file)
+      case "import-presets":
+        return this.handleImportPresetLibrary(task.file)
+      case "relink-folder":
+        return this.handleRelinkFolder(task.layerIds)
+      case "relink-file":
+        return this.handleRelinkFile(task.layerIds[0])
       default:
         throw new Error(`Unknown task type: ${(task as any).type}`)
     }
@@ -83,141 +241,138 @@ export class TaskManager {
   private async handleQuickExportPNG(filename = "canvas-export"): Promise<void> {
     console.log("🖼️ Starting PNG export:", filename)
     const canvas = document.createElement("canvas")
-    const ctx = canvas.getContext("2d")
-
-    if (!ctx) {
-      throw new Error("Could not create canvas context")
-    }
-
-    canvas.width = this.context.canvasWidth
-    canvas.height = this.context.canvasHeight
-    ctx.clearRect(0, 0, this.context.canvasWidth, this.context.canvasHeight)
 
-    const visibleLayers = this.context.layers.filter((layer) => layer.isVisible).sort((a, b) => a.zIndex - b.zIndex)
+    const visibleLayers = LayerTree.getVisibleLayers(this.context.layers, this.context.folders)
     console.log("📋 Visible layers for export:", visibleLayers.length, visibleLayers.map(l => l.name))
 
-    if (visibleLayers.length === 0) {
-      console.log("⚠️ No visible layers, exporting empty canvas")
-      await this.downloadCanvas(canvas, filename, "png")
-      return
-    }
-
-    return new Promise((resolve, reject) => {
-      let loadedImages = 0
-      const totalImages = visibleLayers.length
-
-      const checkComplete = async () => {
-        if (loadedImages === totalImages) {
-          console.log("✅ All images loaded, downloading canvas")
-          await this.downloadCanvas(canvas, filename, "png")
-          resolve()
-        }
-      }
-
-      visibleLayers.forEach((layer, index) => {
-        console.log(`🔄 Loading image ${index + 1}/${totalImages}: ${layer.name} from ${layer.src}`)
-        const img = new Image()
-        img.crossOrigin = "anonymous"
-
-        img.onload = () => {
-          console.log(`✅ Image loaded: ${layer.name} (${img.naturalWidth}x${img.naturalHeight})`)
-          const scaleX = this.context.canvasWidth / layer.width
-          const scaleY = this.context.canvasHeight / layer.height
-          const scale = Math.min(scaleX, scaleY)
-
-          const scaledWidth = layer.width * scale
-          const scaledHeight = layer.height * scale
-          const offsetX = (this.context.canvasWidth - scaledWidth) / 2
-          const offsetY = (this.context.canvasHeight - scaledHeight) / 2
-
-          console.log(`🎨 Drawing ${layer.name}: scale=${scale.toFixed(3)}, size=${scaledWidth.toFixed(0)}x${scaledHeight.toFixed(0)}, offset=${offsetX.toFixed(0)},${offsetY.toFixed(0)}`)
-          ctx.drawImage(img, offsetX, offsetY, scaledWidth, scaledHeight)
-          loadedImages++
-          checkComplete()
-        }
-
-        img.onerror = (error) => {
-          console.error(`❌ Failed to load layer: ${layer.name} from ${layer.src}`, error)
-          loadedImages++
-          checkComplete()
-        }
-
-        img.src = layer.src
-      })
-    })
+    await Compositor.renderToCanvas(canvas, visibleLayers, this.context.canvasWidth, this.context.canvasHeight)
+    await this.downloadCanvas(canvas, filename, "png")
   }
 
   private async handleQuickExportJPG(filename = "canvas-export", quality = 90): Promise<void> {
     console.log("🖼️ Starting JPG export:", filename, "quality:", quality)
     const canvas = document.createElement("canvas")
-    const ctx = canvas.getContext("2d")
 
-    if (!ctx) {
-      throw new Error("Could not create canvas context")
-    }
+    const visibleLayers = LayerTree.getVisibleLayers(this.context.layers, this.context.folders)
+    console.log("📋 Visible layers for JPG export:", visibleLayers.length)
+
+    await Compositor.renderToCanvas(canvas, visibleLayers, this.context.canvasWidth, this.context.canvasHeight, {
+      background: "white",
+    })
+    await this.downloadCanvas(canvas, filename, "jpg", quality)
+  }
+
+  private async handleBulkExport(): Promise<void> {
+    const event = new CustomEvent("open-bulk-export")
+    window.dispatchEvent(event)
+  }
 
-    canvas.width = this.context.canvasWidth
-    canvas.height = this.context.canvasHeight
+  private async handleExportOra(filename = "project"): Promise<void> {
+    console.log("📦 Starting OpenRaster export:", filename)
+    const bytes = await OraFormat.write(
+        this.context.layers,
+        this.context.folders,
+        this.context.presets,
+        this.context.canvasWidth,
+        this.context.canvasHeight,
+    )
+    await this.saveBinaryFile(bytes, filename, { name: "OpenRaster", extension: "ora", mimeType: "image/openraster" })
+  }
 
-    ctx.fillStyle = "white"
-    ctx.fillRect(0, 0, this.context.canvasWidth, this.context.canvasHeight)
+  private async handleExportPresetLibrary(filename = "presets"): Promise<void> {
+    console.log("📚 Exporting preset library:", this.context.presets.length, "presets")
+    const library = PresetLibrary.create(this.context.presets, this.context.layers, this.context.folders)
+    const bytes = new TextEncoder().encode(JSON.stringify(library, null, 2))
+    await this.saveBinaryFile(bytes, filename, { name: "Preset Library", extension: "json", mimeType: "application/json" })
+  }
 
-    const visibleLayers = this.context.layers.filter((layer) => layer.isVisible).sort((a, b) => a.zIndex - b.zIndex)
-    console.log("📋 Visible layers for JPG export:", visibleLayers.length)
+  private async handleImportPresetLibrary(file?: File): Promise<void> {
+    if (this.isTauri()) {
+      const selected = await open({
+        filters: [{
+          name: 'Preset Library',
+          extensions: ['json']
+        }],
+        directory: false,
+        multiple: false
+      })
 
-    if (visibleLayers.length === 0) {
-      console.log("⚠️ No visible layers, exporting white canvas")
-      await this.downloadCanvas(canvas, filename, "jpg", quality)
+      if (selected && typeof selected === 'string') {
+        await this.importPresetLibrary(await path.basename(selected), () => readTextFile(selected))
+      }
       return
     }
 
-    return new Promise((resolve, reject) => {
-      let loadedImages = 0
-      const totalImages = visibleLayers.length
-
-      const checkComplete = async () => {
-        if (loadedImages === totalImages) {
-          console.log("✅ All images loaded, downloading JPG canvas")
-          await this.downloadCanvas(canvas, filename, "jpg", quality)
-          resolve()
+    if (!file) {
+      const input = document.createElement("input")
+      input.type = "file"
+      input.accept = ".json"
+      input.onchange = (e) => {
+        const selectedFile = (e.target as HTMLInputElement).files?.[0]
+        if (selectedFile) {
+          this.handleImportPresetLibrary(selectedFile)
         }
       }
+      input.click()
+      return
+    }
 
-      visibleLayers.forEach((layer, index) => {
-        console.log(`🔄 Loading image ${index + 1}/${totalImages}: ${layer.name}`)
-        const img = new Image()
-        img.crossOrigin = "anonymous"
-
-        img.onload = () => {
-          console.log(`✅ Image loaded: ${layer.name}`)
-          const scaleX = this.context.canvasWidth / layer.width
-          const scaleY = this.context.canvasHeight / layer.height
-          const scale = Math.min(scaleX, scaleY)
+    await this.importPresetLibrary(file.name, () => file.text())
+  }
 
-          const scaledWidth = layer.width * scale
-          const scaledHeight = layer.height * scale
-          const offsetX = (this.context.canvasWidth - scaledWidth) / 2
-          const offsetY = (this.context.canvasHeight - scaledHeight) / 2
+  private async importPresetLibrary(fileName: string, readText: () => Promise<string>): Promise<void> {
+    try {
+      const library = PresetLibrary.parse(await readText())
+      const matches = PresetLibrary.match(library, this.context.layers, this.context.folders)
+      console.log("📚 Matched preset library:", {
+        matched: matches.filter((match) => match.targetId).length,
+        unmatched: matches.filter((match) => !match.targetId).length,
+      })
 
-          ctx.drawImage(img, offsetX, offsetY, scaledWidth, scaledHeight)
-          loadedImages++
-          checkComplete()
-        }
+      const mapping = this.context.onReviewPresetLibrary
+          ? await this.context.onReviewPresetLibrary({ fileName, library, matches })
+          : Object.fromEntries(matches.map((match) => [match.node.id, match.targetId]))
+      if (!mapping) {
+        console.log("🚫 Preset library import cancelled")
+        return
+      }
 
-        img.onerror = (error) => {
-          console.error(`❌ Failed to load layer: ${layer.name}`, error)
-          loadedImages++
-          checkComplete()
-        }
+      const presets = PresetLibrary.apply(library, mapping, this.context.presets)
+      this.context.onImportPresets?.({ presets, fileName })
+    } catch (error) {
+      console.error("❌ Failed to import preset library:", error)
+      await this.reportLoadFailure(fileName, error)
+    }
+  }
 
-        img.src = layer.src
+  // Saves generated bytes through the save dialog (Tauri) or as a download (web)
+  private async saveBinaryFile(
+      bytes: Uint8Array,
+      filename: string,
+      fileType: { name: string; extension: string; mimeType: string },
+  ): Promise<void> {
+    if (this.isTauri()) {
+      const filePath = await save({
+        defaultPath: `${filename}.${fileType.extension}`,
+        filters: [{
+          name: fileType.name,
+          extensions: [fileType.extension]
+        }]
       })
-    })
-  }
 
-  private async handleBulkExport(): Promise<void> {
-    const event = new CustomEvent("open-bulk-export")
-    window.dispatchEvent(event)
+      if (filePath) {
+        await writeFile(filePath, bytes)
+        console.log("🎉 File saved successfully:", filePath)
+      }
+    } else {
+      const blob = new Blob([bytes], { type: fileType.mimeType })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `${filename}.${fileType.extension}`
+      link.click()
+      URL.revokeObjectURL(url)
+    }
   }
 
   private async handleSave(filename?: string): Promise<void> {
@@ -227,28 +382,37 @@ export class TaskManager {
         return this.handleSaveAs(filename)
       }
 
-      const projectData = ProjectLoader.exportProject(
-          this.context.layers,
-          [],
-          this.context.canvasWidth,
-          this.context.canvasHeight,
-      )
-
       try {
-        await writeTextFile(this.currentProjectPath, JSON.stringify(projectData, null, 2))
+        if (ProjectArchive.isArchiveFile(this.currentProjectPath)) {
+          await writeFile(this.currentProjectPath, await this.buildProjectArchive())
+        } else {
+          const projectData = this.buildProjectData()
+          this.ignoreChangesUntil = Infinity
+          try {
+            await writeTextFile(this.currentProjectPath, JSON.stringify(projectData, null, 2))
+            await this.writeMemoryAssets(await path.dirname(this.currentProjectPath))
+          } finally {
+            this.ignoreChangesUntil = Date.now() + SAVE_WATCH_GRACE_MS
+          }
+        }
         console.log("Project saved successfully")
       } catch (error) {
         console.error("Failed to save project:", error)
         throw error
       }
+    } else if (this.saveFormat === "archive") {
+      // Web save (single-file download with embedded images)
+      const bytes = await this.buildProjectArchive()
+      const blob = new Blob([bytes], { type: "application/zip" })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `${filename || "project"}.${PROJECT_ARCHIVE_EXTENSION}`
+      link.click()
+      URL.revokeObjectURL(url)
     } else {
       // Web save (download)
-      const projectData = ProjectLoader.exportProject(
-          this.context.layers,
-          [],
-          this.context.canvasWidth,
-          this.context.canvasHeight,
-      )
+      const projectData = this.buildProjectData()
 
       const blob = new Blob([JSON.stringify(projectData, null, 2)], { type: "application/json" })
       const url = URL.createObjectURL(blob)
@@ -257,34 +421,105 @@ export class TaskManager {
       link.download = `${filename || "project"}.json`
       link.click()
       URL.revokeObjectURL(url)
+
+      this.downloadMemoryAssets()
+    }
+  }
+
+  // Paths of in-memory assets still referenced by the current layers
+  private getReferencedMemoryAssets(): [string, Blob][] {
+    const referenced = new Set(this.context.layers.flatMap((layer) => [layer.file_path, layer.mask_path ?? ""]))
+    return [...this.memoryAssets].filter(([assetPath]) => referenced.has(assetPath))
+  }
+
+  // Writes imported layer images next to the project file so it opens like any other project
+  private async writeMemoryAssets(projectDir: string): Promise<void> {
+    for (const [assetPath, blob] of this.getReferencedMemoryAssets()) {
+      const target = await path.join(projectDir, assetPath)
+      await mkdir(await path.dirname(target), { recursive: true })
+      await writeFile(target, new Uint8Array(await blob.arrayBuffer()))
+      console.log("💾 Wrote asset:", target)
+    }
+  }
+
+  // Browsers can't write folders, so imported images are downloaded one by one
+  // and belong in the project's assets/ folder
+  private downloadMemoryAssets(): void {
+    for (const [assetPath, blob] of this.getReferencedMemoryAssets()) {
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = assetPath.split("/").pop() || "layer.png"
+      link.click()
+      URL.revokeObjectURL(url)
+      console.log("💾 Downloaded asset:", assetPath)
     }
   }
 
+  private buildProjectData() {
+    return ProjectLoader.exportProject(
+        this.context.layers,
+        this.context.folders,
+        this.context.presets,
+        this.context.presetStacks,
+        this.context.exclusiveGroups,
+        this.context.layerRules,
+        this.context.canvasWidth,
+        this.context.canvasHeight,
+        {
+          selectedLayerId: this.context.selectedLayerId,
+          zoom: this.context.zoom,
+          panX: this.context.panX,
+          panY: this.context.panY,
+          exportItems: this.context.exportItems,
+        },
+        this.context.presetThumbnails,
+    )
+  }
+
+  private buildProjectArchive(): Promise<Uint8Array> {
+    return ProjectArchive.write(this.buildProjectData(), this.context.layers, this.context.folders, this.memoryAssets)
+  }
+
   private async handleSaveAs(filename?: string): Promise<void> {
     if (this.isTauri()) {
       // Tauri save dialog
       try {
+        const archiveFilter = { name: 'Project Archive', extensions: [PROJECT_ARCHIVE_EXTENSION] }
+        const jsonFilter = { name: 'Project Files', extensions: ['json'] }
+        const extension = this.saveFormat === "archive" ? PROJECT_ARCHIVE_EXTENSION : 'json'
         const filePath = await save({
-          defaultPath: filename ? `${filename}.json` : 'project.json',
-          filters: [{
-            name: 'Project Files',
-            extensions: ['json']
-          }]
+          defaultPath: `${filename || 'project'}.${extension}`,
+          filters: this.saveFormat === "archive" ? [archiveFilter, jsonFilter] : [jsonFilter, archiveFilter]
         })
 
         if (filePath) {
           this.currentProjectPath = filePath
           await this.handleSave()
+          if (ProjectArchive.isArchiveFile(filePath)) {
+            this.stopWatchingProject()
+          } else {
+            await this.watchProject(filePath)
+          }
         }
       } catch (error) {
         console.error("Failed to save project:", error)
         throw error
       }
     } else {
-      // Web save as (prompt for filename)
-      const userFilename = prompt("Enter filename:", filename || "project")
+      // Web save as (prompt for filename; the extension picks the format)
+      const extension = this.saveFormat === "archive" ? PROJECT_ARCHIVE_EXTENSION : "json"
+      const userFilename = prompt(
+          `Enter filename (.json or .${PROJECT_ARCHIVE_EXTENSION}):`,
+          `${filename || "project"}.${extension}`,
+      )
       if (userFilename) {
-        return this.handleSave(userFilename)
+        if (ProjectArchive.isArchiveFile(userFilename)) {
+          this.saveFormat = "archive"
+        } else if (userFilename.toLowerCase().endsWith(".json")) {
+          this.saveFormat = "json"
+        }
+        return this.handleSave(userFilename.replace(new RegExp(`\\.(json|${PROJECT_ARCHIVE_EXTENSION})$`, "i"), ""))
       }
     }
   }
@@ -296,14 +531,18 @@ export class TaskManager {
         const selected = await open({
           filters: [{
             name: 'Project Files',
-            extensions: ['json']
+            extensions: ['json', PROJECT_ARCHIVE_EXTENSION, 'psd']
           }],
           directory: false,
           multiple: false
         })
 
         if (selected && typeof selected === 'string') {
-          await this.loadTauriProject(selected)
+          if (PsdImporter.isPsdFile(selected) || ProjectArchive.isArchiveFile(selected)) {
+            await this.loadTauriImport(selected)
+          } else {
+            await this.loadTauriProject(selected)
+          }
         }
       } catch (error) {
         console.error("Failed to open project:", error)
@@ -314,7 +553,7 @@ export class TaskManager {
       if (!file) {
         const input = document.createElement("input")
         input.type = "file"
-        input.accept = ".json"
+        input.accept = `.json,.${PROJECT_ARCHIVE_EXTENSION},.psd`
         input.onchange = (e) => {
           const selectedFile = (e.target as HTMLInputElement).files?.[0]
           if (selectedFile) {
@@ -326,96 +565,628 @@ export class TaskManager {
       }
 
       try {
+        if (PsdImporter.isPsdFile(file.name) || ProjectArchive.isArchiveFile(file.name)) {
+          const imported = await this.importDocument(new Uint8Array(await file.arrayBuffer()), file.name)
+          if (await this.loadProjectData(imported.project, file.name, imported)) {
+            this.saveFormat = "archive"
+          }
+          return
+        }
+
         console.log("📂 Loading project file:", file.name)
         const projectData = await ProjectLoader.loadProjectFile(file)
-        await this.loadProjectData(projectData, file.name)
+        if (await this.loadProjectData(projectData, file.name)) {
+          this.saveFormat = "json"
+        }
       } catch (error) {
         console.error("Failed to load project:", error)
-        alert(`Failed to load project: ${error}`)
+        await this.reportLoadFailure(file.name, error)
+      }
+    }
+  }
+
+  // Web build: open a project JSON together with the folder it lives in, so
+  // layer paths resolve to the real files. Tauri reads assets from disk anyway.
+  private async handleOpenFolder(files?: DirectoryFiles): Promise<void> {
+    if (this.isTauri()) {
+      return this.handleOpen()
+    }
+
+    const folderFiles = files ?? (await ProjectDirectory.pick())
+    if (!folderFiles || folderFiles.size === 0) {
+      return
+    }
+
+    // A single dropped file (archive, PSD, ...) opens like any other file
+    const [onlyPath] = folderFiles.keys()
+    if (folderFiles.size === 1 && !onlyPath.toLowerCase().endsWith(".json")) {
+      return this.handleOpen([...folderFiles.values()][0])
+    }
+
+    let fileName = "project folder"
+    try {
+      const loaded = await ProjectDirectory.loadProject(folderFiles)
+      fileName = loaded.fileName
+      if (await this.loadProjectData(loaded.imported.project, fileName, loaded.imported)) {
+        // The images live in the picked folder, so saving only writes the JSON
+        this.memoryAssets = new Map()
+        this.saveFormat = "json"
+      }
+    } catch (error) {
+      console.error("Failed to open project folder:", error)
+      await this.reportLoadFailure(fileName, error)
+    }
+  }
+
+  private async handleImportOra(file?: File): Promise<void> {
+    if (this.isTauri()) {
+      const selected = await open({
+        filters: [{
+          name: 'OpenRaster',
+          extensions: ['ora']
+        }],
+        directory: false,
+        multiple: false
+      })
+
+      if (selected && typeof selected === 'string') {
+        await this.loadTauriImport(selected)
+      }
+      return
+    }
+
+    if (!file) {
+      const input = document.createElement("input")
+      input.type = "file"
+      input.accept = ".ora"
+      input.onchange = (e) => {
+        const selectedFile = (e.target as HTMLInputElement).files?.[0]
+        if (selectedFile) {
+          this.handleImportOra(selectedFile)
+        }
+      }
+      input.click()
+      return
+    }
+
+    try {
+      const imported = await this.importDocument(new Uint8Array(await file.arrayBuffer()), file.name)
+      if (await this.loadProjectData(imported.project, file.name, imported)) {
+        this.saveFormat = "archive"
+      }
+    } catch (error) {
+      console.error("Failed to import OpenRaster file:", error)
+      await this.reportLoadFailure(file.name, error)
+    }
+  }
+
+  // Merges layers and presets from another project into the open one
+  private async handleImportProject(file?: File): Promise<void> {
+    if (this.isTauri()) {
+      const selected = await open({
+        filters: [{
+          name: 'Project Files',
+          extensions: ['json', PROJECT_ARCHIVE_EXTENSION, 'psd', 'ora']
+        }],
+        directory: false,
+        multiple: false
+      })
+
+      if (selected && typeof selected === 'string') {
+        const fileName = await path.basename(selected)
+        try {
+          if (selected.toLowerCase().endsWith(".json")) {
+            const project = ProjectLoader.parseProjectData(await readTextFile(selected))
+            await this.mergeProject(fileName, { project, assets: new Map(), diagnostics: [] }, await path.dirname(selected))
+          } else {
+            await this.mergeProject(fileName, await this.importDocument(await readFile(selected), fileName))
+          }
+        } catch (error) {
+          console.error("❌ Failed to import from project:", error)
+          await this.reportLoadFailure(fileName, error)
+        }
+      }
+      return
+    }
+
+    if (!file) {
+      const input = document.createElement("input")
+      input.type = "file"
+      input.accept = `.json,.${PROJECT_ARCHIVE_EXTENSION},.psd,.ora`
+      input.onchange = (e) => {
+        const selectedFile = (e.target as HTMLInputElement).files?.[0]
+        if (selectedFile) {
+          this.handleImportProject(selectedFile)
+        }
+      }
+      input.click()
+      return
+    }
+
+    try {
+      const imported: ImportedProject = file.name.toLowerCase().endsWith(".json")
+          ? { project: await ProjectLoader.loadProjectFile(file), assets: new Map(), diagnostics: [] }
+          : await this.importDocument(new Uint8Array(await file.arrayBuffer()), file.name)
+      await this.mergeProject(file.name, imported)
+    } catch (error) {
+      console.error("Failed to import from project:", error)
+      await this.reportLoadFailure(file.name, error)
+    }
+  }
+
+  // `sourceDir` is the folder of a JSON project whose images are on disk (Tauri)
+  private async mergeProject(fileName: string, imported: ImportedProject, sourceDir?: string): Promise<void> {
+    const { project } = imported
+    if (!(await this.reviewProblems(fileName, [...imported.diagnostics, ...ProjectValidator.validate(project)]))) {
+      console.log("🚫 Import cancelled after reviewing problems")
+      return
+    }
+
+    const selection = this.context.onReviewMerge
+        ? await this.context.onReviewMerge({ fileName, project })
+        : { layerIds: project.layers.map((layer) => layer.id), presetIds: project.presets.map((preset) => preset.id) }
+    if (!selection || selection.layerIds.length + selection.presetIds.length === 0) {
+      console.log("🚫 Import from project cancelled")
+      return
+    }
+
+    const prepared = ProjectMerge.prepare(project, selection, this.context)
+    const layers = await AssetStatusChecker.checkLayers(
+        await this.loadMergedLayers(prepared, project.canvas, imported.assets, sourceDir),
+    )
+
+    this.context.onMergeProject?.({
+      layers,
+      folders: ProjectLoader.convertProjectFoldersToRuntimeFolders(prepared.folders),
+      presets: prepared.presets,
+      fileName,
+    })
+  }
+
+  // Asset paths are rebased so they resolve from the open project: files on disk
+  // relative to its folder, in-memory images under names that don't clash
+  private async loadMergedLayers(
+      prepared: PreparedMerge,
+      canvas: ProjectCanvas,
+      assets: Map<string, Blob>,
+      sourceDir?: string,
+  ): Promise<Layer[]> {
+    if (sourceDir) {
+      const projectDir = this.currentProjectPath ? await path.dirname(this.currentProjectPath) : null
+      const rebase = async (assetPath: string) => {
+        const absolutePath = await path.resolve(sourceDir, assetPath)
+        return projectDir ? ProjectMerge.relativePath(projectDir, absolutePath) : absolutePath
       }
+
+      const rebased = await Promise.all(
+          prepared.layers.map(async (layer) => ({
+            ...layer,
+            file_path: layer.file_path ? await rebase(layer.file_path) : layer.file_path,
+            mask_path: layer.mask_path ? await rebase(layer.mask_path) : null,
+          })),
+      )
+      return this.loadLayersWithAssets(rebased, canvas, prepared.folders, projectDir ?? sourceDir)
     }
+
+    const usedPaths = new Set([
+      ...this.memoryAssets.keys(),
+      ...this.context.layers.flatMap((layer) => [layer.file_path, layer.mask_path ?? ""]),
+    ])
+    const renamed = ProjectMerge.renameAssetPaths([...assets.keys()], usedPaths)
+    const assetUrls = this.addMemoryAssets(new Map([...assets].map(([assetPath, blob]) => [renamed.get(assetPath)!, blob])))
+    const rename = (assetPath: string) => renamed.get(assetPath) ?? assetPath
+
+    const layers = prepared.layers.map((layer) => ({
+      ...layer,
+      file_path: rename(layer.file_path),
+      mask_path: layer.mask_path ? rename(layer.mask_path) : null,
+    }))
+    return ProjectLoader.applyAssetUrls(
+        ProjectLoader.convertProjectLayersToRuntimeLayers(layers, canvas, prepared.folders),
+        assetUrls,
+    )
+  }
+
+  // Searches a folder (recursively) for files named like the layers' file_path
+  private async handleRelinkFolder(layerIds: string[]): Promise<void> {
+    const candidates = await this.pickRelinkFolder()
+    if (!candidates) {
+      return
+    }
+
+    const updates: LayerAssetUpdate[] = []
+    for (const layer of this.context.layers.filter((l) => layerIds.includes(l.id))) {
+      const fileName = layer.file_path.replace(/\\/g, "/").split("/").pop()?.toLowerCase()
+      const candidate = fileName ? candidates.get(fileName) : undefined
+      if (candidate) {
+        updates.push(await this.relinkLayer(layer, candidate))
+      }
+    }
+
+    console.log("🔗 Relinked from folder:", { requested: layerIds.length, matched: updates.length })
+    this.context.onUpdateLayerAssets?.(updates)
+  }
+
+  private async handleRelinkFile(layerId: string): Promise<void> {
+    const layer = this.context.layers.find((l) => l.id === layerId)
+    if (!layer) {
+      return
+    }
+
+    let candidate: RelinkCandidate | null = null
+    if (this.isTauri()) {
+      const selected = await open({
+        filters: [{
+          name: 'Images',
+          extensions: ['png', 'jpg', 'jpeg', 'webp']
+        }],
+        directory: false,
+        multiple: false
+      })
+      if (selected && typeof selected === 'string') {
+        candidate = { name: await path.basename(selected), absolutePath: selected }
+      }
+    } else {
+      const file = await new Promise<File | null>((resolve) => {
+        const input = document.createElement("input")
+        input.type = "file"
+        input.accept = "image/*"
+        input.onchange = () => resolve(input.files?.[0] ?? null)
+        input.click()
+      })
+      if (file) {
+        candidate = { name: file.name, file }
+      }
+    }
+
+    if (candidate) {
+      this.context.onUpdateLayerAssets?.([await this.relinkLayer(layer, candidate)])
+    }
+  }
+
+  // Files in the picked folder by lower-case file name
+  private async pickRelinkFolder(): Promise<Map<string, RelinkCandidate> | null> {
+    const candidates = new Map<string, RelinkCandidate>()
+
+    if (this.isTauri()) {
+      const selected = await open({ directory: true, multiple: false })
+      if (!selected || typeof selected !== 'string') {
+        return null
+      }
+
+      const walk = async (dir: string) => {
+        for (const entry of await readDir(dir)) {
+          const entryPath = await path.join(dir, entry.name)
+          if (entry.isDirectory) {
+            await walk(entryPath)
+          } else if (!candidates.has(entry.name.toLowerCase())) {
+            candidates.set(entry.name.toLowerCase(), { name: entry.name, absolutePath: entryPath })
+          }
+        }
+      }
+      await walk(selected)
+      return candidates
+    }
+
+    const files = await ProjectDirectory.pick()
+    if (!files) {
+      return null
+    }
+    for (const file of files.values()) {
+      if (!candidates.has(file.name.toLowerCase())) {
+        candidates.set(file.name.toLowerCase(), { name: file.name, file })
+      }
+    }
+    return candidates
+  }
+
+  // Points the layer at the new file. In the browser the file keeps the layer's
+  // folder and is saved like an imported image; in Tauri the path is stored
+  // relative to the project when it is inside the project folder.
+  private async relinkLayer(layer: Layer, candidate: RelinkCandidate): Promise<LayerAssetUpdate> {
+    let filePath: string
+    let src: string
+
+    if (candidate.file) {
+      const folder = layer.file_path.replace(/\\/g, "/").split("/").slice(0, -1).join("/") || "assets"
+      filePath = `${folder}/${candidate.name}`
+      src = URL.createObjectURL(candidate.file)
+      this.memoryAssetUrls.push(src)
+      this.memoryAssets.set(filePath, candidate.file)
+    } else {
+      const absolutePath = candidate.absolutePath!
+      filePath = await this.toProjectPath(absolutePath)
+      src = convertFileSrc(absolutePath)
+    }
+
+    const assetStatus = await AssetStatusChecker.check({ ...layer, file_path: filePath, src })
+    console.log(`🔗 Relinked ${layer.name}: ${layer.file_path} -> ${filePath} (${assetStatus})`)
+    return { id: layer.id, file_path: filePath, src, assetStatus }
+  }
+
+  private async toProjectPath(absolutePath: string): Promise<string> {
+    if (!this.currentProjectPath) {
+      return absolutePath
+    }
+
+    const projectDir = (await path.dirname(this.currentProjectPath)).replace(/\\/g, "/")
+    const target = absolutePath.replace(/\\/g, "/")
+    return target.startsWith(`${projectDir}/`) ? target.slice(projectDir.length + 1) : absolutePath
+  }
+
+  // Builds a project whose images are held in memory: a project archive or a
+  // layered file in another format
+  private async importDocument(data: Uint8Array, fileName: string): Promise<ImportedProject> {
+    if (ProjectArchive.isArchiveFile(fileName)) {
+      return ProjectArchive.read(data, fileName)
+    }
+    if (PsdImporter.isPsdFile(fileName)) {
+      return PsdImporter.importPsd(data, fileName)
+    }
+    if (OraFormat.isOraFile(fileName)) {
+      return OraFormat.read(data, fileName)
+    }
+    throw new Error(`Unsupported file type: ${fileName}`)
   }
 
   private async loadTauriProject(projectPath: string): Promise<void> {
     try {
       console.log("📂 Loading Tauri project from:", projectPath)
       const content = await readTextFile(projectPath)
-      const projectData = JSON.parse(content)
+      const projectData = ProjectLoader.parseProjectData(content)
+      const fileName = await path.basename(projectPath, '.json')
+
+      if (!(await this.reviewProblems(fileName, ProjectValidator.validate(projectData)))) {
+        console.log("🚫 Opening cancelled after reviewing problems")
+        return
+      }
 
+      this.stopWatchingProject()
       this.currentProjectPath = projectPath
-      const fileName = await path.basename(projectPath, '.json')
+      this.saveFormat = "json"
+      this.setMemoryAssets(new Map())
 
       // Load layers with real asset paths
       const projectDir = await path.dirname(projectPath)
       console.log("📁 Project directory:", projectDir)
-      const layersWithAssets = await this.loadLayersWithAssets(projectData.layers, projectDir)
+      const layersWithAssets = await AssetStatusChecker.checkLayers(
+          await this.loadLayersWithAssets(projectData.layers, projectData.canvas, projectData.folders, projectDir),
+      )
+      const folders = ProjectLoader.convertProjectFoldersToRuntimeFolders(projectData.folders)
 
-      const presets = projectData.presets.map((preset: any) => ({
-        id: preset.id,
-        name: preset.name,
-        layer_states: preset.layer_states, // Keep as layer_states for consistency
-        created_at: preset.created_at,
-      }))
+      const presets = projectData.presets
 
       console.log("🎯 Loaded presets:", presets)
 
+      const session = ProjectLoader.convertProjectSessionToSessionState(
+          projectData.session,
+          layersWithAssets,
+          presets,
+          projectData.preset_stacks,
+      )
+
       if (this.context.onLoadProject) {
-        this.context.onLoadProject(
-            layersWithAssets,
-            presets,
-            projectData.canvas.width,
-            projectData.canvas.height,
-            fileName
-        )
+        this.context.onLoadProject({
+          layers: layersWithAssets,
+          folders,
+          presets,
+          presetStacks: projectData.preset_stacks,
+          exclusiveGroups: projectData.exclusive_groups,
+          layerRules: projectData.layer_rules,
+          canvasWidth: projectData.canvas.width,
+          canvasHeight: projectData.canvas.height,
+          fileName,
+          session,
+          presetThumbnails: projectData.preset_thumbnails,
+        })
       }
 
       console.log("✅ Tauri project loaded successfully:", {
         fileName,
         layers: layersWithAssets.length,
+        folders: folders.length,
         presets: presets.length,
         canvas: projectData.canvas,
       })
+
+      await this.watchProject(projectPath)
     } catch (error) {
       console.error("❌ Failed to load Tauri project:", error)
-      throw error
+      await this.reportLoadFailure(projectPath, error)
     }
   }
 
-  private async loadLayersWithAssets(projectLayers: any[], projectDir: string): Promise<Layer[]> {
+  // Archives save back to where they were opened from; an imported file has no
+  // project file yet, so its first save asks where to put it
+  private async loadTauriImport(filePath: string): Promise<void> {
+    try {
+      console.log("📂 Opening file with in-memory assets from:", filePath)
+      const fileName = await path.basename(filePath)
+      const imported = await this.importDocument(await readFile(filePath), fileName)
+
+      if (await this.loadProjectData(imported.project, fileName, imported)) {
+        this.currentProjectPath = ProjectArchive.isArchiveFile(filePath) ? filePath : undefined
+        this.saveFormat = "archive"
+      }
+    } catch (error) {
+      console.error("❌ Failed to import file:", error)
+      await this.reportLoadFailure(filePath, error)
+    }
+  }
+
+  // Watches the project folder so layers re-extracted by another tool show up
+  // without reopening the project
+  private async watchProject(projectPath: string): Promise<void> {
+    this.stopWatchingProject()
+    const projectDir = await path.dirname(projectPath)
+
+    try {
+      const unwatch = await watch(projectDir, (event) => this.queueProjectChange(event), {
+        recursive: true,
+        delayMs: RELOAD_DELAY_MS,
+      })
+      // Another project may have been opened while the watcher was starting
+      if (this.currentProjectPath !== projectPath || this.unwatchProject) {
+        unwatch()
+        return
+      }
+      this.unwatchProject = unwatch
+      console.log("👀 Watching project folder:", projectDir)
+    } catch (error) {
+      console.error("❌ Failed to watch project folder:", error)
+    }
+  }
+
+  private stopWatchingProject(): void {
+    this.unwatchProject?.()
+    this.unwatchProject = undefined
+    clearTimeout(this.reloadTimer)
+    this.pendingChanges.clear()
+  }
+
+  private queueProjectChange(event: WatchEvent): void {
+    if (Date.now() < this.ignoreChangesUntil || (typeof event.type === "object" && "access" in event.type)) {
+      return
+    }
+
+    event.paths.forEach((changedPath) => this.pendingChanges.add(normalizeWatchPath(changedPath)))
+    clearTimeout(this.reloadTimer)
+    this.reloadTimer = setTimeout(() => {
+      this.reloadQueue = this.reloadQueue.then(() => this.reloadChangedFiles())
+    }, RELOAD_DELAY_MS)
+  }
+
+  // Re-reads the project JSON if it changed and reloads the images of layers
+  // whose files changed, then hands the merged result to the page
+  private async reloadChangedFiles(): Promise<void> {
+    const projectPath = this.currentProjectPath
+    const changedPaths = new Set(this.pendingChanges)
+    this.pendingChanges.clear()
+    if (!projectPath || !this.unwatchProject || changedPaths.size === 0) {
+      return
+    }
+
+    try {
+      const projectDir = await path.dirname(projectPath)
+      let incoming = this.context.layers
+      let folders = this.context.folders
+      let canvas: ProjectCanvas = { width: this.context.canvasWidth, height: this.context.canvasHeight }
+
+      if (changedPaths.has(normalizeWatchPath(projectPath))) {
+        console.log("🔄 Project file changed on disk, reloading:", projectPath)
+        // A tool may still be writing the file; the next change event retries
+        const projectData = ProjectLoader.parseProjectData(await readTextFile(projectPath))
+        incoming = await this.loadLayersWithAssets(projectData.layers, projectData.canvas, projectData.folders, projectDir)
+        folders = ProjectReload.mergeFolders(folders, ProjectLoader.convertProjectFoldersToRuntimeFolders(projectData.folders))
+        canvas = projectData.canvas
+      }
+
+      const changedAssetIds = new Set<string>()
+      for (const layer of incoming) {
+        for (const assetPath of [layer.file_path, layer.mask_path]) {
+          if (assetPath && changedPaths.has(normalizeWatchPath(await path.resolve(projectDir, assetPath)))) {
+            changedAssetIds.add(layer.id)
+          }
+        }
+      }
+
+      const currentIds = new Set(this.context.layers.map((layer) => layer.id))
+      const reloaded = await AssetStatusChecker.checkLayers(
+          await Promise.all(
+              incoming
+                  .filter((layer) => changedAssetIds.has(layer.id) || !currentIds.has(layer.id))
+                  .map((layer) => this.reloadLayerAssets(layer, projectDir)),
+          ),
+      )
+      const reloadedById = new Map(reloaded.map((layer) => [layer.id, layer]))
+
+      const { layers, summary } = ProjectReload.mergeLayers(
+          this.context.layers,
+          incoming.map((layer) => reloadedById.get(layer.id) ?? layer),
+          changedAssetIds,
+      )
+      if (ProjectReload.isEmpty(summary) && canvas.width === this.context.canvasWidth && canvas.height === this.context.canvasHeight) {
+        return
+      }
+
+      console.log("✅ Reloaded changes from disk:", summary)
+      this.context.onReloadProject?.({ layers, folders, canvasWidth: canvas.width, canvasHeight: canvas.height, summary })
+    } catch (error) {
+      console.warn("⚠️ Failed to reload project changes:", error)
+    }
+  }
+
+  // Fresh URLs for a layer's image and mask; the query string makes the webview
+  // fetch the file again instead of showing the cached image
+  private async reloadLayerAssets(layer: Layer, projectDir: string): Promise<Layer> {
+    const version = Date.now()
+    const withVersion = (url: string) => `${url}?v=${version}`
+
+    const assetPath = layer.file_path ? await path.resolve(projectDir, layer.file_path) : null
+    const src =
+        assetPath && (await exists(assetPath))
+            ? withVersion(convertFileSrc(assetPath))
+            : ProjectLoader.createPlaceholder(layer.name, layer.width, layer.height)
+    const maskSrc = layer.mask_path ? withVersion(convertFileSrc(await path.resolve(projectDir, layer.mask_path))) : null
+
+    return { ...layer, src, maskSrc }
+  }
+
+  private async loadLayersWithAssets(
+      projectLayers: ProjectLayer[],
+      canvas: ProjectCanvas,
+      folders: ProjectFolder[],
+      projectDir: string,
+  ): Promise<Layer[]> {
     console.log("🔄 Loading layers with assets:", projectLayers.length, "layers")
     const layers: Layer[] = []
 
-    for (const [index, layer] of projectLayers.entries()) {
+    for (const [index, layer] of ProjectLoader.normalizeProjectLayers(projectLayers, canvas, folders).entries()) {
+      const maskSrc = await this.resolveMaskSrc(layer, projectDir)
+
+      let src: string
+      let assetStatus: AssetStatus = "ok"
       try {
         console.log(`🔄 Processing layer ${index + 1}: ${layer.name} (${layer.file_path})`)
-        const assetPath = await path.join(projectDir, layer.file_path)
-        const assetUrl = convertFileSrc(assetPath)
-        console.log(`🔗 Asset URL for ${layer.name}: ${assetUrl}`)
-
-        layers.push({
-          id: layer.id,
-          name: layer.name,
-          src: assetUrl,
-          file_path: layer.file_path,
-          width: layer.width,
-          height: layer.height,
-          isVisible: layer.is_visible,
-          zIndex: layer.z_index,
-        })
+        if (!layer.file_path) {
+          throw new Error("Layer has no file_path")
+        }
+
+        // resolve() keeps absolute paths (e.g. relinked files outside the project) as they are
+        const assetPath = await path.resolve(projectDir, layer.file_path)
+        if (!(await exists(assetPath))) {
+          throw new Error(`File not found: ${assetPath}`)
+        }
+
+        src = convertFileSrc(assetPath)
+        console.log(`🔗 Asset URL for ${layer.name}: ${src}`)
       } catch (error) {
         console.error(`❌ Failed to load asset for layer ${layer.name}:`, error)
-        // Fallback to placeholder
-        layers.push({
-          id: layer.id,
-          name: layer.name,
-          src: `/placeholder.svg?height=${layer.height}&width=${layer.width}&text=${encodeURIComponent(layer.name)}`,
-          file_path: layer.file_path,
-          width: layer.width,
-          height: layer.height,
-          isVisible: layer.is_visible,
-          zIndex: layer.z_index,
-        })
+        src = ProjectLoader.createPlaceholder(layer.name, layer.width, layer.height)
+        assetStatus = "missing"
       }
+
+      layers.push({
+        id: layer.id,
+        name: layer.name,
+        src,
+        file_path: layer.file_path,
+        width: layer.width,
+        height: layer.height,
+        isVisible: layer.is_visible,
+        zIndex: layer.z_index,
+        parentId: layer.parent_id ?? null,
+        x: layer.x ?? 0,
+        y: layer.y ?? 0,
+        placement: layer.placement ?? "absolute",
+        opacity: layer.opacity ?? 1,
+        blendMode: layer.blend_mode ?? "normal",
+        clipping: layer.clipping === true,
+        maskSrc,
+        mask_path: layer.mask_path ?? null,
+        maskEnabled: layer.mask_enabled !== false,
+        assetStatus,
+      })
     }
 
     const sortedLayers = layers.sort((a, b) => a.zIndex - b.zIndex)
@@ -423,7 +1194,65 @@ export class TaskManager {
     return sortedLayers
   }
 
-  private async loadProjectData(projectData: any, fileName: string): Promise<void> {
+  // Masks resolve like layer assets; a mask that can't be resolved is left off
+  // rather than replaced with a placeholder
+  private async resolveMaskSrc(layer: ProjectLayer, projectDir: string): Promise<string | null> {
+    if (!layer.mask_path) {
+      return null
+    }
+
+    try {
+      const maskPath = await path.resolve(projectDir, layer.mask_path)
+      const maskUrl = convertFileSrc(maskPath)
+      console.log(`🎭 Mask URL for ${layer.name}: ${maskUrl}`)
+      return maskUrl
+    } catch (error) {
+      console.error(`❌ Failed to resolve mask for layer ${layer.name}:`, error)
+      return null
+    }
+  }
+
+  private async reviewProblems(fileName: string, diagnostics: ProjectDiagnostic[]): Promise<boolean> {
+    if (diagnostics.length === 0) {
+      return true
+    }
+
+    if (!this.context.onReviewProblems) {
+      return !ProjectValidator.hasErrors(diagnostics)
+    }
+
+    return this.context.onReviewProblems(fileName, diagnostics)
+  }
+
+  private async reportLoadFailure(fileName: string, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error)
+
+    if (!this.context.onReviewProblems) {
+      alert(`Failed to load project: ${message}`)
+      return
+    }
+
+    await this.context.onReviewProblems(fileName, [{ severity: "error", message }])
+  }
+
+  // Replaces the in-memory assets and returns object URLs for them by file path
+  private setMemoryAssets(assets: Map<string, Blob>): Map<string, string> {
+    this.memoryAssetUrls.forEach((url) => URL.revokeObjectURL(url))
+    this.memoryAssets = new Map()
+    this.memoryAssetUrls = []
+    return this.addMemoryAssets(assets)
+  }
+
+  // Adds to the in-memory assets and returns object URLs for the new ones
+  private addMemoryAssets(assets: Map<string, Blob>): Map<string, string> {
+    const urls = new Map([...assets].map(([assetPath, blob]) => [assetPath, URL.createObjectURL(blob)]))
+    assets.forEach((blob, assetPath) => this.memoryAssets.set(assetPath, blob))
+    this.memoryAssetUrls.push(...urls.values())
+    return urls
+  }
+
+  // Returns false when the user cancelled after reviewing problems
+  private async loadProjectData(projectData: ProjectFile, fileName: string, imported?: ImportedProject): Promise<boolean> {
     console.log("📊 Loading project data:", {
       fileName,
       canvas: projectData.canvas,
@@ -431,7 +1260,21 @@ export class TaskManager {
       presetCount: projectData.presets.length
     })
 
-    const layers = ProjectLoader.convertProjectLayersToRuntimeLayers(projectData.layers)
+    const diagnostics = [...(imported?.diagnostics ?? []), ...ProjectValidator.validate(projectData)]
+    if (!(await this.reviewProblems(fileName, diagnostics))) {
+      console.log("🚫 Opening cancelled after reviewing problems")
+      return false
+    }
+
+    this.stopWatchingProject()
+    const assetUrls = this.setMemoryAssets(imported?.assets ?? new Map())
+    const layers = await AssetStatusChecker.checkLayers(
+        ProjectLoader.applyAssetUrls(
+            ProjectLoader.convertProjectLayersToRuntimeLayers(projectData.layers, projectData.canvas, projectData.folders),
+            assetUrls,
+        ),
+    )
+    const folders = ProjectLoader.convertProjectFoldersToRuntimeFolders(projectData.folders)
     console.log("🎨 Converted layers:", layers.map(l => ({
       id: l.id,
       name: l.name,
@@ -440,34 +1283,38 @@ export class TaskManager {
       zIndex: l.zIndex
     })))
 
-    // Fixed: Keep layer_states as is, don't rename to layerStates
-    const presets = projectData.presets.map((preset: any) => ({
-      id: preset.id,
-      name: preset.name,
-      layer_states: preset.layer_states, // Keep original property name
-      created_at: preset.created_at,
-    }))
+    // Preset field names are normalized by the schema migrations
+    const presets = projectData.presets
 
-    console.log("🎯 Converted presets:", presets)
+    console.log("🎯 Loaded presets:", presets)
 
     const projectName = fileName.replace(/\.[^/.]+$/, "")
+    const session = ProjectLoader.convertProjectSessionToSessionState(projectData.session, layers, presets, projectData.preset_stacks)
 
     if (this.context.onLoadProject) {
-      this.context.onLoadProject(
-          layers,
-          presets,
-          projectData.canvas.width,
-          projectData.canvas.height,
-          projectName
-      )
+      this.context.onLoadProject({
+        layers,
+        folders,
+        presets,
+        presetStacks: projectData.preset_stacks,
+        exclusiveGroups: projectData.exclusive_groups,
+        layerRules: projectData.layer_rules,
+        canvasWidth: projectData.canvas.width,
+        canvasHeight: projectData.canvas.height,
+        fileName: projectName,
+        session,
+        presetThumbnails: projectData.preset_thumbnails,
+      })
     }
 
     console.log("✅ Project loaded successfully:", {
       projectName,
       layers: layers.length,
+      folders: folders.length,
       presets: presets.length,
       canvas: projectData.canvas,
     })
+    return true
   }
 
   private async downloadCanvas(canvas: HTMLCanvasElement, filename: string, format: "png" | "jpg", quality = 100): Promise<void> {
@@ -551,4 +1398,44 @@ export const createSaveAsTask = (filename?: string): SaveTask => ({
 export const createOpenTask = (file?: File): OpenTask => ({
   type: "open",
   file,
+})
+
+export const createImportProjectTask = (file?: File): ImportTask => ({
+  type: "import-project",
+  file,
+})
+
+export const createOpenFolderTask = (files?: DirectoryFiles): OpenFolderTask => ({
+  type: "open-folder",
+  files,
+})
+
+export const createRelinkFolderTask = (layerIds: string[]): RelinkTask => ({
+  type: "relink-folder",
+  layerIds,
+})
+
+export const createRelinkFileTask = (layerId: string): RelinkTask => ({
+  type: "relink-file",
+  layerIds: [layerId],
+})
+
+export const createImportOraTask = (file?: File): ImportTask => ({
+  type: "import-ora",
+  file,
+})
+
+export const createExportOraTask = (filename?: string): ExportTask => ({
+  type: "export-ora",
+  filename,
+})
+
+export const createExportPresetLibraryTask = (filename?: string): ExportTask => ({
+  type: "export-presets",
+  filename,
+})
+
+export const createImportPresetLibraryTask = (file?: File): ImportTask => ({
+  type: "import-presets",
+  file,
 })
\ No newline at end of file